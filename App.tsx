@@ -1,61 +1,32 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import Board from './components/Board';
+import ReplayViewer from './components/ReplayViewer';
 import { 
-  GameState, Unit, UnitType, Player, Direction, SupportLine, PendingAttack, AIAction, Difficulty 
+  GameState, Unit, UnitType, Player, Direction, AIAction, Difficulty, GameAction, GameMode, GameOptions,
+  RuleSetId, CombatWinner, ClientMessage, ServerMessage, LLMConfig, LLMProvider 
 } from './types';
 import { 
-  GRID_SIZE, INITIAL_ARMY_COMPOSITION, getUnitAt, isValidMove, canRotate, getValidAttackTargets, 
-  calculateBaseStrength, isValidSupportPlacement, resolveCombat, canAttack
+  CLASSIC_ARMY, ARMY_BUDGETS, GRID_SIZES, UNIT_COSTS, MAX_ARMY_SIZE, getArmyCost, getArmySize, getUnitAt, isValidMove, canRotate, getValidAttackTargets, calculateBaseStrength, canAttack, canCharge, getRemainingActions
 } from './services/gameLogic';
-import { getComputerMovesLocal, getComputerSupportPlacement } from './services/aiLogic';
-
-const generateId = () => Math.random().toString(36).substr(2, 9);
-
-// Helper to count initial units
-const getInitialUnitCounts = () => {
-  return INITIAL_ARMY_COMPOSITION.reduce((acc, type) => {
-    acc[type] = (acc[type] || 0) + 1;
-    return acc;
-  }, {} as Record<UnitType, number>);
-};
-
-// Extracted initialization logic for reuse in resetGame
-const getInitialComputerState = () => {
-    const compUnits: Unit[] = [];
-    const compTypes = [...INITIAL_ARMY_COMPOSITION];
-    
-    // Deployment zone for Computer (7x7, 1-based): 
-    // Top 2 rows (y=1, 2), centered 3 cols (x=3, 4, 5).
-    let placements: {x:number, y:number}[] = [];
-    for(let y=1; y<=2; y++) {
-      for(let x=3; x<=5; x++) {
-        placements.push({x,y});
-      }
-    }
-    // Shuffle placements
-    placements = placements.sort(() => Math.random() - 0.5);
-
-    compTypes.forEach((type, idx) => {
-       if (idx < placements.length) {
-         compUnits.push({
-           id: generateId(),
-           type,
-           player: 'computer',
-           x: placements[idx].x,
-           y: placements[idx].y,
-           rotation: Direction.SOUTH,
-           movesLeft: type === UnitType.CAVALRY ? 2 : 1,
-           attacksLeft: 1,
-           hasRotated: false,
-           maxMoves: type === UnitType.CAVALRY ? 2 : 1,
-           hp: 1
-         });
-       }
-    });
-
-    const compSupport = getComputerSupportPlacement();
-    return { units: compUnits, support: compSupport };
-};
+import { 
+  applyAction, getActionError, getLegalActions, createInitialState, getDeploymentZone,
+  canUndo, canRedo, undo, redo, getOpponent, getSideName, getSupportLines, getArmyError, getGameOptions, getResultText
+} from './services/engine';
+import { RULE_SETS, describeRuleSet } from './services/rules';
+import { getKnownSupportLines, previewCombat } from './services/knowledge';
+import { squareName } from './services/notation';
+import { getComputerMovesLocal, getComputerArmy, getInitialComputerState, shouldComputerResign, toGameAction } from './services/aiLogic';
+import { AI_PERSONALITIES, parsePersonality } from './services/personalities';
+import { SEARCH_TIME_BUDGET_MS, SEARCH_TIME_BUDGETS } from './services/searchAI';
+import { createAIPlanner } from './services/aiClient';
+import { loadLLMConfig, saveLLMConfig } from './services/llmService';
+import { 
+  OnlineClient, ConnectionStatus, createOnlineClient, getDefaultRelayUrl, loadSession 
+} from './services/onlineClient';
+import { 
+  SavedGame, SAVE_VERSION, loadFromStorage, saveToStorage, clearStorage, exportToFile, importFromFile 
+} from './services/persistence';
+import { parsePosition, serializePosition } from './services/position';
 
 const RULES_TEXT = `1. Gra toczy się na planszy z kwadratowymi polami, 7x7 pól.
 2. Każdy z graczy ma do dyspozycji maksymalnie sześć żetonów.
@@ -75,22 +46,24 @@ const RULES_TEXT = `1. Gra toczy się na planszy z kwadratowymi polami, 7x7 pól
 16. Gra toczy się dopóki jeden z graczy nie straci wszystkich żetonów, podda się lub obaj gracze jeden po drugim nie wykonają żadnego ruchu.`;
 
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>({
-    gridSize: GRID_SIZE,
-    difficulty: 'medium',
-    units: [],
-    playerSupport: [],
-    computerSupport: [],
-    turn: 'setup_placement',
-    winner: null,
-    selectedUnitId: null,
-    logs: ['Welcome to "Skrimish 7x7"', 'Select a unit type and click the blue zone to place it.'],
-    combatState: null,
-    pendingAttack: null,
-    showComputerSupport: false
-  });
+  const [gameState, setGameState] = useState<GameState>(() => ({
+    ...createInitialState('medium'),
+    logs: ['Welcome to "Skrimish 7x7"', 'Select a unit type and click the blue zone to place it.']
+  }));
 
   const [showRules, setShowRules] = useState(false);
+  // Text of the "Load position" dialog, null while it is closed
+  const [positionText, setPositionText] = useState<string | null>(null);
+  const [positionError, setPositionError] = useState<string | null>(null);
+  // Replay reveals both sides' support lines, so it is only offered once the game is over
+  const [showReplay, setShowReplay] = useState(false);
+  // A game loaded from a position replays from that position instead of army building
+  const replayInitialState = useMemo(
+    () => gameState.startPosition
+      ? { ...parsePosition(gameState.startPosition, getGameOptions(gameState)), mode: gameState.mode }
+      : createInitialState(gameState.difficulty, gameState.mode, getGameOptions(gameState)),
+    [gameState.difficulty, gameState.mode, gameState.armyBudget, gameState.gridSize, gameState.rules, gameState.startPosition]
+  );
 
   // Ref to track current game state during async operations
   const gameStateRef = useRef(gameState);
@@ -98,12 +71,36 @@ export default function App() {
     gameStateRef.current = gameState;
   }, [gameState]);
 
+  // Hot-seat: the side currently at the screen, and the cover shown while the device changes hands.
+  // Against the computer the viewer is always 'player'.
+  const [viewer, setViewer] = useState<Player>('player');
+  const [handoffTo, setHandoffTo] = useState<Player | null>(null);
+  const isHotseat = gameState.mode === 'hotseat';
+  const isOnline = gameState.mode === 'online';
+  // Both sides human: support lines are private to their owner
+  const isHumanOpponent = gameState.mode !== 'vs_computer';
+
+  // Online: relay connection, our seat comes in as the viewer
+  const onlineRef = useRef<OnlineClient | null>(null);
+  const onlineJoinedRef = useRef(false);
+  // Seat whose army was sent; its finish_army follows once the relay has accepted the purchase
+  const pendingArmyRef = useRef<Player | null>(null);
+  const [onlineStatus, setOnlineStatus] = useState<ConnectionStatus | null>(null);
+  const [onlineRoom, setOnlineRoom] = useState<{ roomId: string, ready: Record<Player, boolean>, opponentConnected: boolean } | null>(null);
+  const [relayUrl, setRelayUrl] = useState(() => loadSession()?.url ?? getDefaultRelayUrl());
+  const [roomCode, setRoomCode] = useState('');
+
   // Setup State
-  const [availableUnits, setAvailableUnits] = useState<Record<UnitType, number>>(getInitialUnitCounts());
   const [selectedPlacementType, setSelectedPlacementType] = useState<UnitType | null>(null);
+  const [armyDraft, setArmyDraft] = useState<Record<UnitType, number>>(CLASSIC_ARMY);
+  const availableUnits = gameState.reserves[viewer];
 
   const [isProcessingAI, setIsProcessingAI] = useState(false);
   const [aiPlan, setAiPlan] = useState<AIAction[] | null>(null);
+  const [searchBudget, setSearchBudget] = useState(SEARCH_TIME_BUDGET_MS);
+  const [aiProgress, setAiProgress] = useState<{ progress: number, detail: string } | null>(null);
+  const plannerRef = useRef(createAIPlanner());
+  const [llmConfig, setLlmConfig] = useState<LLMConfig>(loadLLMConfig);
   const logsEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll logs
@@ -111,98 +108,367 @@ export default function App() {
     logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [gameState.logs]);
 
+  const disconnectOnline = () => {
+    onlineRef.current?.close();
+    onlineRef.current = null;
+    onlineJoinedRef.current = false;
+    pendingArmyRef.current = null;
+    setOnlineStatus(null);
+    setOnlineRoom(null);
+  };
+
+  const handleServerMessage = (message: ServerMessage) => {
+    if (message.type === 'joined') {
+      onlineJoinedRef.current = true;
+      setViewer(message.seat);
+      setOnlineRoom(prev => ({ roomId: message.roomId, ready: prev?.ready ?? { player: false, computer: false }, opponentConnected: prev?.opponentConnected ?? false }));
+    } else if (message.type === 'state') {
+      // Server state is authoritative; keep local selection only while the same side is to move
+      setGameState(prev => {
+        const sameTurn = prev.turn === message.state.turn;
+        const selectedStillThere = message.state.units.some(u => u.id === prev.selectedUnitId);
+        return {
+          ...message.state,
+          selectedUnitId: sameTurn && selectedStillThere ? prev.selectedUnitId : null,
+          pendingAttack: null,
+          combatState: null
+        };
+      });
+      setOnlineRoom(prev => prev && { ...prev, ready: message.ready, opponentConnected: message.opponentConnected });
+      const seat = pendingArmyRef.current;
+      if (seat && message.state.turn === 'setup_army' && getArmySize(message.state.reserves[seat]) > 0) {
+        pendingArmyRef.current = null;
+        onlineRef.current?.send({ type: 'action', action: { type: 'finish_army' } });
+      }
+    } else if (message.type === 'error') {
+      pendingArmyRef.current = null;
+      addLog(`Server: ${message.message}`);
+      // Failed to create/join/resume: drop the connection so the lobby is shown again
+      if (!onlineJoinedRef.current) disconnectOnline();
+    }
+  };
+
+  const connectOnline = (initial: ClientMessage, url: string) => {
+    disconnectOnline();
+    onlineRef.current = createOnlineClient(url, initial, {
+      onMessage: handleServerMessage,
+      onStatus: setOnlineStatus
+    });
+  };
+
   // Game Reset Logic
-  const resetGame = () => {
-    const { units, support } = getInitialComputerState();
-    
-    setGameState(prev => ({
-        gridSize: GRID_SIZE,
-        difficulty: prev.difficulty, // Preserve current difficulty
-        units: units,
-        playerSupport: [],
-        computerSupport: support,
-        turn: 'setup_placement',
-        winner: null,
-        selectedUnitId: null,
-        logs: ['Game Reset.', 'Select a unit type and click the blue zone to place it.'],
-        combatState: null,
-        pendingAttack: null,
-        showComputerSupport: false
-    }));
-    setAvailableUnits(getInitialUnitCounts());
+  const resetGame = ({ mode, ...options }: Partial<GameOptions> & { mode?: GameMode } = {}) => {
+    disconnectOnline();
+    setGameState(prev => {
+        // Preserve current difficulty and game options unless new ones are chosen
+        const fresh = createInitialState(prev.difficulty, mode ?? prev.mode, { ...getGameOptions(prev), ...options });
+        if (fresh.mode === 'hotseat') {
+            return { ...fresh, logs: ['Game Reset. Hot-seat game.', 'Blue buys an army first, then Red.'] };
+        }
+        if (fresh.mode === 'online') {
+            return { ...fresh, logs: ['Online game: create a room or join one with its code.'] };
+        }
+        return { ...fresh, logs: ['Game Reset.', `Buy your army: ${fresh.armyBudget} points, at most ${MAX_ARMY_SIZE} units.`] };
+    });
+    setArmyDraft(CLASSIC_ARMY);
+    setViewer('player');
+    setHandoffTo(null);
     setSelectedPlacementType(null);
+    plannerRef.current.cancel();
     setAiPlan(null);
     setIsProcessingAI(false);
+    setAiProgress(null);
+    setShowReplay(false);
   };
 
-  // Initial Computer Setup
+  // Initial Computer Setup (or reconnect to an online room left by a page reload)
   useEffect(() => {
-    resetGame();
+    const session = loadSession();
+    if (session) {
+      setGameState(prev => ({ ...createInitialState(prev.difficulty, 'online'), logs: [`Reconnecting to room ${session.roomId}...`] }));
+      connectOnline({ type: 'rejoin', roomId: session.roomId, token: session.token }, session.url);
+    } else {
+      resetGame();
+    }
+    return () => onlineRef.current?.close();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Persistence: offer to resume an unfinished saved game, auto-save every change afterwards
+  const [resumeCandidate, setResumeCandidate] = useState<SavedGame | null>(() => {
+    if (loadSession()) return null; // An online game takes precedence
+    const saved = loadFromStorage();
+    return saved && saved.state.turn !== 'game_over' ? saved : null;
+  });
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const personalityInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Don't overwrite the stored game while the player decides whether to resume it
+    // Online games live on the relay server and are resumed from there
+    if (!resumeCandidate && gameState.mode !== 'online') saveToStorage(gameState, aiPlan);
+  }, [gameState, aiPlan, resumeCandidate]);
+
+  const loadSavedGame = (saved: SavedGame) => {
+    disconnectOnline();
+    // An exported online game continues locally as a hot-seat game
+    setGameState(saved.state.mode === 'online' ? { ...saved.state, mode: 'hotseat' } : saved.state);
+    // Nobody knows who is at the screen after a reload, so hot-seat games resume behind a hand-off
+    const redIsBuying = saved.state.turn === 'setup_army' && getArmySize(saved.state.reserves.player) > 0;
+    const side: Player = saved.state.turn === 'computer' || redIsBuying ? 'computer' : 'player';
+    const isLocalTwoPlayer = saved.state.mode !== 'vs_computer';
+    setViewer(isLocalTwoPlayer ? side : 'player');
+    setHandoffTo(isLocalTwoPlayer ? side : null);
+    plannerRef.current.cancel();
+    setAiPlan(saved.aiPlan);
+    setIsProcessingAI(false);
+    setAiProgress(null);
+    setSelectedPlacementType(null);
+    setResumeCandidate(null);
+  };
+
+  const discardSavedGame = () => {
+    clearStorage();
+    setResumeCandidate(null);
+  };
+
+  // Custom computer weights for experimenting (see parsePersonality for the format)
+  const handlePersonalityFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const personality = parsePersonality(await file.text());
+      setGameState(p => ({ ...p, personality }));
+      addLog(`Computer personality "${personality.name}" loaded from ${file.name}.`);
+    } catch (error) {
+      addLog(`Personality import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const renderPersonalityPicker = () => (
+    <div className="flex flex-col leading-none">
+      <label className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mb-0.5">AI Personality</label>
+      <div className="flex gap-1">
+        <select
+          value={gameState.personality.id}
+          onChange={(e) => setGameState(p => ({ ...p, personality: AI_PERSONALITIES[e.target.value] ?? p.personality }))}
+          className="bg-slate-800 text-xs text-white rounded border border-slate-600 px-1 py-0.5 focus:outline-none focus:border-blue-500"
+          title={gameState.personality.description}
+        >
+          {Object.values(AI_PERSONALITIES).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          {!AI_PERSONALITIES[gameState.personality.id] && <option value={gameState.personality.id}>{gameState.personality.name}</option>}
+        </select>
+        <button
+          onClick={() => personalityInputRef.current?.click()}
+          className="px-1 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 border border-slate-600"
+          title="Import a personality from a JSON file"
+        >
+          JSON
+        </button>
+      </div>
+    </div>
+  );
+
+  useEffect(() => saveLLMConfig(llmConfig), [llmConfig]);
+
+  const updateLLMConfig = (patch: Partial<LLMConfig>) => setLlmConfig(prev => ({ ...prev, ...patch }));
+
+  // Where the LLM opponent sends its prompts; shown while that difficulty is selected
+  const renderLLMSettings = () => (
+    <div className="grid grid-cols-2 gap-2 bg-slate-700/50 p-2 rounded text-xs">
+      <label className="flex flex-col gap-0.5 text-[9px] text-slate-400 font-bold uppercase tracking-wider">
+        LLM Provider
+        <select
+          value={llmConfig.provider}
+          onChange={(e) => updateLLMConfig({ provider: e.target.value as LLMProvider })}
+          className="bg-slate-800 text-xs text-white font-normal normal-case rounded border border-slate-600 px-1 py-0.5 focus:outline-none focus:border-blue-500"
+        >
+          <option value="gemini">Gemini</option>
+          <option value="openai">OpenAI-compatible</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-0.5 text-[9px] text-slate-400 font-bold uppercase tracking-wider">
+        Model
+        <input
+          value={llmConfig.model}
+          onChange={(e) => updateLLMConfig({ model: e.target.value })}
+          className="bg-slate-800 text-xs text-white font-normal normal-case rounded border border-slate-600 px-1 py-0.5 focus:outline-none focus:border-blue-500"
+        />
+      </label>
+      {llmConfig.provider === 'openai' && (
+      <label className="flex flex-col gap-0.5 text-[9px] text-slate-400 font-bold uppercase tracking-wider">
+        Base URL
+        <input
+          value={llmConfig.baseUrl}
+          onChange={(e) => updateLLMConfig({ baseUrl: e.target.value })}
+          className="bg-slate-800 text-xs text-white font-normal normal-case rounded border border-slate-600 px-1 py-0.5 focus:outline-none focus:border-blue-500"
+          title="API root of an OpenAI-compatible server, e.g. llama.cpp or `npm run mock-llm`"
+        />
+      </label>
+      )}
+      <label className="flex flex-col gap-0.5 text-[9px] text-slate-400 font-bold uppercase tracking-wider">
+        API Key
+        <input
+          type="password"
+          value={llmConfig.apiKey}
+          onChange={(e) => updateLLMConfig({ apiKey: e.target.value })}
+          placeholder={llmConfig.provider === 'gemini' ? 'GEMINI_API_KEY' : 'none'}
+          className="bg-slate-800 text-xs text-white font-normal normal-case rounded border border-slate-600 px-1 py-0.5 focus:outline-none focus:border-blue-500"
+        />
+      </label>
+    </div>
+  );
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file twice
+    if (!file) return;
+    try {
+      const saved = await importFromFile(file);
+      loadSavedGame(saved);
+      addLog(`Game imported from ${file.name}.`);
+    } catch (error) {
+      addLog(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const openPositionDialog = () => {
+    let current = '';
+    try {
+      current = serializePosition(gameState);
+    } catch {
+      // Outside the battle there is no position to start from
+    }
+    setPositionText(current);
+    setPositionError(null);
+  };
+
+  const loadPosition = () => {
+    try {
+      const state = parsePosition(positionText ?? '', { armyBudget: gameState.armyBudget, personality: gameState.personality });
+      // Keeps the game mode; loadSavedGame turns an online game into a local hot-seat one, as on import
+      loadSavedGame({
+        version: SAVE_VERSION,
+        savedAt: new Date().toISOString(),
+        state: { ...state, mode: gameState.mode, logs: ['Position loaded.'] },
+        aiPlan: null
+      });
+      setPositionText(null);
+    } catch (error) {
+      setPositionError((error as Error).message);
+    }
+  };
+
   const addLog = (msg: string) => {
     setGameState(prev => ({ ...prev, logs: [...prev.logs, msg] }));
   };
 
+  // Validate against the latest state, report rule violations in the log, then apply.
+  // Online, the action goes to the relay and the resulting state comes back from there.
+  const dispatch = (action: GameAction): boolean => {
+    if (gameStateRef.current.mode === 'online') {
+      if (!onlineJoinedRef.current) {
+        addLog("Create or join a room first.");
+        return false;
+      }
+      // The redacted local state can't judge shared phase changes (opponent armies and units are hidden)
+      const isSharedTransition = action.type === 'finish_army' || action.type === 'finish_placement' || action.type === 'finish_setup';
+      const error = isSharedTransition ? null : getActionError(gameStateRef.current, action);
+      if (error) {
+        addLog(error);
+        return false;
+      }
+      onlineRef.current?.send({ type: 'action', action });
+      return true;
+    }
+
+    const error = getActionError(gameStateRef.current, action);
+    if (error) {
+      addLog(error);
+      return false;
+    }
+    setGameState(prev => getActionError(prev, action) ? prev : applyAction(prev, action));
+    return true;
+  };
+
+  const changeArmyDraft = (type: UnitType, delta: number) => {
+    setArmyDraft(prev => ({ ...prev, [type]: Math.max(0, prev[type] + delta) }));
+  };
+
+  const confirmArmy = () => {
+    const error = getArmyError(armyDraft, gameState.armyBudget);
+    if (error) {
+      addLog(error);
+      return;
+    }
+    const army = armyDraft;
+    setArmyDraft(CLASSIC_ARMY);
+
+    if (isHotseat) {
+      // Blue buys first and passes the device; Red's purchase closes the phase and Blue deploys first
+      if (viewer === 'player') {
+        dispatch({ type: 'set_army', player: 'player', army });
+        handOff('computer');
+      } else {
+        setGameState(prev => applyAction(applyAction(prev, { type: 'set_army', player: 'computer', army }), { type: 'finish_army' }));
+        handOff('player');
+      }
+      return;
+    }
+    if (isOnline) {
+      if (dispatch({ type: 'set_army', player: viewer, army })) pendingArmyRef.current = viewer;
+      return;
+    }
+
+    // Against the computer: it buys with its difficulty's strategy, then deploys right away
+    setGameState(prev => {
+      const actions: GameAction[] = [
+        { type: 'set_army', player: 'player', army },
+        { type: 'set_army', player: 'computer', army: getComputerArmy(prev.difficulty, prev.armyBudget) },
+        { type: 'finish_army' }
+      ];
+      const next = getInitialComputerState(actions.reduce(applyAction, prev));
+      return { ...next, logs: [...next.logs, 'Select a unit type and click the blue zone to place it.'] };
+    });
+  };
+
+  const handOff = (to: Player) => {
+    setGameState(prev => ({ ...prev, selectedUnitId: null, pendingAttack: null }));
+    setSelectedPlacementType(null);
+    setViewer(to);
+    setHandoffTo(to);
+  };
+
   const autoDeploy = () => {
-    const unitsToAdd: Unit[] = [];
     const usedSpots = new Set(gameState.units.map(u => `${u.x},${u.y}`));
-    
-    // Deployment Zone: x: 3-5, y: 6-7
-    const potentialSpots: {x:number, y:number}[] = [];
-    for (let x=3; x<=5; x++) {
-        for (let y=6; y<=7; y++) {d
-            if (!usedSpots.has(`${x},${y}`)) {
-                potentialSpots.push({x, y});
-            }
-        }
-    }
+    const potentialSpots = getDeploymentZone(viewer, gameState.gridSize).filter(c => !usedSpots.has(`${c.x},${c.y}`));
     // Shuffle
     potentialSpots.sort(() => Math.random() - 0.5);
-    
-    let spotIndex = 0;
-    const remainingUnits: UnitType[] = [];
-    
-    // Flatten available units map to array
-    Object.entries(availableUnits).forEach(([type, count]) => {
-        for(let i=0; i<count; i++) remainingUnits.push(type as UnitType);
-    });
 
-    remainingUnits.forEach((type) => {
-        if (spotIndex < potentialSpots.length) {
-            const spot = potentialSpots[spotIndex];
-            unitsToAdd.push({
-                id: generateId(),
-                type,
-                player: 'player',
-                x: spot.x,
-                y: spot.y,
-                rotation: Direction.NORTH,
-                movesLeft: type === UnitType.CAVALRY ? 2 : 1,
-                attacksLeft: 1,
-                hasRotated: false,
-                maxMoves: type === UnitType.CAVALRY ? 2 : 1,
-                hp: 1
-            });
-            spotIndex++;
-        }
+    // Flatten available units map to array
+    const remainingUnits: UnitType[] = [];
+    (Object.entries(gameState.reserves[viewer]) as [UnitType, number][]).forEach(([type, count]) => {
+        for (let i = 0; i < count; i++) remainingUnits.push(type);
     });
 
-    setGameState(prev => ({
-        ...prev,
-        units: [...prev.units, ...unitsToAdd],
+    const actions: GameAction[] = remainingUnits.slice(0, potentialSpots.length).map((unitType, i) => ({
+        type: 'place_unit', player: viewer, unitType, x: potentialSpots[i].x, y: potentialSpots[i].y
     }));
-    setAvailableUnits({ [UnitType.INFANTRY]: 0, [UnitType.ARCHER]: 0, [UnitType.CAVALRY]: 0 });
+    if (isOnline) {
+        actions.forEach(action => onlineRef.current?.send({ type: 'action', action }));
+    } else {
+        setGameState(prev => actions.reduce((state, action) => getActionError(state, action) ? state : applyAction(state, action), prev));
+    }
     setSelectedPlacementType(null);
   };
 
   const handleTileClick = (x: number, y: number) => {
-    if (gameState.winner || isProcessingAI || aiPlan) return;
+    if (gameState.winner || isProcessingAI || aiPlan || handoffTo) return;
 
     if (gameState.turn === 'setup_placement') {
       handleSetupPlacement(x, y);
-    } else if (gameState.turn === 'player') {
+    } else if (gameState.turn === viewer) {
       handleGameInteraction(x, y);
     }
   };
@@ -212,81 +478,40 @@ export default function App() {
         addLog("Select a unit type first.");
         return;
     }
-    if (availableUnits[selectedPlacementType] <= 0) {
-        addLog(`No ${selectedPlacementType}s left.`);
-        return;
-    }
-    
-    // Validate Zone (Player is bottom 7x7: y=6,7, x=3-5)
-    if (y < 6 || x < 3 || x > 5) {
-      addLog("Invalid placement zone (Bottom center 2x3).");
-      return;
-    }
-    if (getUnitAt(gameState.units, x, y)) {
-      addLog("Tile occupied.");
-      return;
-    }
 
     const type = selectedPlacementType;
-    const newUnit: Unit = {
-      id: generateId(),
-      type,
-      player: 'player',
-      x,
-      y,
-      rotation: Direction.NORTH,
-      movesLeft: type === UnitType.CAVALRY ? 2 : 1,
-      attacksLeft: 1,
-      hasRotated: false,
-      maxMoves: type === UnitType.CAVALRY ? 2 : 1,
-      hp: 1
-    };
-
-    setGameState(prev => ({
-      ...prev,
-      units: [...prev.units, newUnit]
-    }));
-    
-    setAvailableUnits(prev => {
-        const newState = { ...prev, [type]: prev[type] - 1 };
+    if (dispatch({ type: 'place_unit', player: viewer, unitType: type, x, y })) {
         // If run out, deselect
-        if (newState[type] <= 0) setSelectedPlacementType(null);
-        return newState;
-    });
+        if (availableUnits[type] <= 1) setSelectedPlacementType(null);
+    }
   };
 
   const finishPlacement = () => {
+    // Hot-seat: Blue deploys first, then hands over to Red who closes the phase
+    if (isHotseat && viewer === 'player') {
+      if (!gameState.units.some(u => u.player === 'player')) {
+        addLog("Place at least one unit first.");
+        return;
+      }
+      handOff('computer');
+      return;
+    }
     // Transition to Support Phase
-    setGameState(prev => ({ ...prev, turn: 'setup_support' }));
-    addLog("Placement finished. Set support lines.");
+    dispatch({ type: 'finish_placement' });
   };
 
   const toggleSupport = (type: 'row' | 'col', index: number) => {
-    if (gameState.turn !== 'setup_support') return;
-
-    const existingIndex = gameState.playerSupport.findIndex(s => s.type === type && s.index === index);
-    
-    if (existingIndex >= 0) {
-      const newSupport = [...gameState.playerSupport];
-      newSupport.splice(existingIndex, 1);
-      setGameState(prev => ({ ...prev, playerSupport: newSupport }));
-    } else {
-      if (gameState.playerSupport.length >= 3) {
-        addLog("Max 3 supports allowed. Deselect one first.");
-        return;
-      }
-      const newS: SupportLine = { player: 'player', type, index };
-      if (isValidSupportPlacement(gameState.playerSupport, newS)) {
-        setGameState(prev => ({ ...prev, playerSupport: [...prev.playerSupport, newS] }));
-      } else {
-        addLog("Invalid support placement (Adjacent parallel lines not allowed).");
-      }
-    }
+    if (gameState.turn !== 'setup_support' || handoffTo) return;
+    dispatch({ type: 'toggle_support', player: viewer, lineType: type, index });
   };
 
   const finishSetup = () => {
-    setGameState(prev => ({ ...prev, turn: 'player' }));
-    addLog("Game Start! Your Turn.");
+    // Hot-seat: Red (still at the screen after deployment) sets supports first, then Blue
+    if (isHotseat && viewer === 'computer') {
+      handOff('player');
+      return;
+    }
+    dispatch({ type: 'finish_setup' });
   };
 
   const handleGameInteraction = (x: number, y: number) => {
@@ -294,17 +519,17 @@ export default function App() {
     const selectedUnit = gameState.units.find(u => u.id === gameState.selectedUnitId);
 
     // --- Scenario 1: Clicking an ENEMY (Targeting/Attacking) ---
-    if (clickedUnit && clickedUnit.player === 'computer') {
+    if (clickedUnit && clickedUnit.player !== viewer) {
         let newAttackerIds: string[] = [];
         
-        if (selectedUnit && canAttack(selectedUnit, clickedUnit, gameState.units)) {
+        if (selectedUnit && canAttack(selectedUnit, clickedUnit, gameState.units, gameState.rules)) {
             newAttackerIds.push(selectedUnit.id);
         } else if (gameState.pendingAttack?.targetId === clickedUnit.id) {
             return;
         }
 
         if (gameState.pendingAttack && gameState.pendingAttack.targetId === clickedUnit.id) {
-             if (selectedUnit && !gameState.pendingAttack.attackerIds.includes(selectedUnit.id) && canAttack(selectedUnit, clickedUnit, gameState.units)) {
+             if (selectedUnit && !gameState.pendingAttack.attackerIds.includes(selectedUnit.id) && canAttack(selectedUnit, clickedUnit, gameState.units, gameState.rules)) {
                  setGameState(prev => ({
                      ...prev,
                      pendingAttack: {
@@ -318,7 +543,7 @@ export default function App() {
             if (newAttackerIds.length > 0) {
                 setGameState(prev => ({
                     ...prev,
-                    pendingAttack: { targetId: clickedUnit.id, attackerIds: newAttackerIds }
+                    pendingAttack: { targetId: clickedUnit.id, attackerIds: newAttackerIds, chargeIds: [] }
                 }));
                 addLog(`Targeting ${clickedUnit.type}. Add more units or Confirm.`);
             } else {
@@ -329,17 +554,18 @@ export default function App() {
     }
 
     // --- Scenario 2: Clicking OWN Unit ---
-    if (clickedUnit && clickedUnit.player === 'player') {
+    if (clickedUnit && clickedUnit.player === viewer) {
         if (gameState.pendingAttack) {
             const target = gameState.units.find(u => u.id === gameState.pendingAttack!.targetId);
-            if (target && canAttack(clickedUnit, target, gameState.units)) {
+            if (target && canAttack(clickedUnit, target, gameState.units, gameState.rules)) {
                 const alreadyAdded = gameState.pendingAttack.attackerIds.includes(clickedUnit.id);
                 if (alreadyAdded) {
                      setGameState(prev => ({
                          ...prev,
                          pendingAttack: {
                              ...prev.pendingAttack!,
-                             attackerIds: prev.pendingAttack!.attackerIds.filter(id => id !== clickedUnit.id)
+                             attackerIds: prev.pendingAttack!.attackerIds.filter(id => id !== clickedUnit.id),
+                             chargeIds: prev.pendingAttack!.chargeIds.filter(id => id !== clickedUnit.id)
                          }
                      }));
                      addLog(`${clickedUnit.type} removed from attack.`);
@@ -369,44 +595,18 @@ export default function App() {
             return;
         }
 
-        if (isValidMove(selectedUnit, x, y, gameState.units)) {
-             // Calculate cost. Distance 2 means charge = cost 2. Distance 1 = cost 1.
-             const dist = Math.abs(selectedUnit.x - x) + Math.abs(selectedUnit.y - y);
-             if (selectedUnit.movesLeft >= dist) {
-               executeMove(selectedUnit, x, y, dist);
-             } else {
-               addLog("Not enough moves left.");
-             }
+        if (isValidMove(selectedUnit, x, y, gameState.units, gameState.gridSize, gameState.rules)) {
+             // Cost and remaining moves are checked by the engine
+             executeMove(selectedUnit, x, y);
         } else {
             setGameState(prev => ({ ...prev, selectedUnitId: null })); // Deselect
         }
     }
   };
 
-  const executeMove = (unit: Unit, x: number, y: number, cost: number = 1) => {
-    // Auto-Rotate Logic: Unit turns to face movement direction
-    let newRotation = unit.rotation;
-    if (y < unit.y) newRotation = Direction.NORTH;
-    else if (x > unit.x) newRotation = Direction.EAST;
-    else if (y > unit.y) newRotation = Direction.SOUTH;
-    else if (x < unit.x) newRotation = Direction.WEST;
-
-    setGameState(prev => {
-      const newUnits = prev.units.map(u => {
-        if (u.id === unit.id) {
-          return { 
-            ...u, 
-            x, 
-            y, 
-            rotation: newRotation, 
-            movesLeft: u.movesLeft - cost, 
-            hasRotated: false 
-          };
-        }
-        return u;
-      });
-      return { ...prev, units: newUnits };
-    });
+  const executeMove = (unit: Unit, x: number, y: number) => {
+    // Auto-Rotate Logic: Unit turns to face movement direction (handled by the engine)
+    dispatch({ type: 'move', unitId: unit.id, x, y });
   };
 
   const executeRotate = (direction: 'left' | 'right') => {
@@ -418,29 +618,14 @@ export default function App() {
         return;
     }
 
-    if (!canRotate(unit)) {
-      addLog("Cannot rotate (Need at least 1 move remaining).");
-      return;
-    }
-
-    setGameState(prev => {
-       const newUnits = prev.units.map(u => {
-         if (u.id === unit.id) {
-           let newDir = u.rotation;
-           if (direction === 'left') newDir = (u.rotation + 3) % 4;
-           else newDir = (u.rotation + 1) % 4;
-           return { ...u, rotation: newDir, hasRotated: true };
-         }
-         return u;
-       });
-       return { ...prev, units: newUnits };
-    });
+    const newDir: Direction = direction === 'left' ? (unit.rotation + 3) % 4 : (unit.rotation + 1) % 4;
+    dispatch({ type: 'rotate', unitId: unit.id, direction: newDir });
   };
 
   const confirmPendingAttack = async () => {
       if (!gameState.pendingAttack || gameState.pendingAttack.attackerIds.length === 0) return;
 
-      const { targetId, attackerIds } = gameState.pendingAttack;
+      const { targetId, attackerIds, chargeIds } = gameState.pendingAttack;
       const target = gameState.units.find(u => u.id === targetId);
       const attackers = gameState.units.filter(u => attackerIds.includes(u.id));
 
@@ -449,54 +634,53 @@ export default function App() {
           return;
       }
 
-      await executeMultiAttack(attackers, target);
+      await executeMultiAttack(attackers, target, chargeIds);
   };
 
-  const executeMultiAttack = async (attackers: Unit[], defender: Unit) => {
-    setGameState(prev => ({ ...prev, pendingAttack: null }));
+  // Rule 13: a charging cavalry gets +1 but gives up its remaining moves
+  const toggleCharge = (unitId: string) => {
+      setGameState(prev => {
+          if (!prev.pendingAttack) return prev;
+          const { chargeIds } = prev.pendingAttack;
+          return {
+              ...prev,
+              pendingAttack: {
+                  ...prev.pendingAttack,
+                  chargeIds: chargeIds.includes(unitId) ? chargeIds.filter(id => id !== unitId) : [...chargeIds, unitId]
+              }
+          };
+      });
+  };
 
+  const executeMultiAttack = async (attackers: Unit[], defender: Unit, chargeIds: string[]) => {
     setGameState(prev => ({ 
         ...prev, 
+        pendingAttack: null,
         combatState: { attackerIds: attackers.map(a => a.id), defenderId: defender.id } 
     }));
     
     await new Promise(r => setTimeout(r, 800));
 
+    if (gameStateRef.current.mode === 'online') {
+       setGameState(prev => ({ ...prev, combatState: null }));
+       dispatch({ type: 'attack', targetId: defender.id, attackerIds: attackers.map(a => a.id), chargeIds });
+       return;
+    }
+
     setGameState(prev => {
-       const curAttackers = prev.units.filter(u => attackers.map(a => a.id).includes(u.id));
-       const curDefender = prev.units.find(u => u.id === defender.id);
-       
-       if (curAttackers.length === 0 || !curDefender) return { ...prev, combatState: null };
-
-       const result = resolveCombat(curAttackers, curDefender, prev.playerSupport, prev.computerSupport);
-       
-       let newUnits = [...prev.units];
-       
-       newUnits = newUnits.map(u => {
-           if (curAttackers.some(atk => atk.id === u.id)) {
-               return { ...u, attacksLeft: 0, movesLeft: Math.max(0, u.movesLeft) };
-           }
-           return u;
-       });
-
-       if (result.winner === 'attacker') {
-           newUnits = newUnits.filter(u => u.id !== curDefender.id);
-       } else if (result.winner === 'defender') {
-           // Attackers Lost! Remove them.
-           const attackerIds = curAttackers.map(a => a.id);
-           newUnits = newUnits.filter(u => !attackerIds.includes(u.id));
-       }
-
-       return { 
-           ...prev, 
-           units: newUnits, 
-           selectedUnitId: null, 
-           combatState: null,
-           logs: [...prev.logs, result.log]
-       };
+       const attackerIds = prev.units.filter(u => attackers.some(a => a.id === u.id)).map(u => u.id);
+       const action: GameAction = { type: 'attack', targetId: defender.id, attackerIds, chargeIds: chargeIds.filter(id => attackerIds.includes(id)) };
+       if (getActionError(prev, action)) return { ...prev, combatState: null };
+       return applyAction(prev, action);
     });
+  };
 
-    setTimeout(checkWinCondition, 100);
+  const toggleSandbox = () => {
+      setGameState(prev => ({
+          ...prev,
+          sandbox: !prev.sandbox,
+          logs: [...prev.logs, prev.sandbox ? "Sandbox mode off." : "Sandbox mode on: all support lines revealed."]
+      }));
   };
 
   const cancelPendingAttack = () => {
@@ -504,44 +688,49 @@ export default function App() {
       addLog("Attack cancelled.");
   };
 
-  const checkWinCondition = () => {
-    setGameState(prev => {
-      const playerUnits = prev.units.filter(u => u.player === 'player');
-      const computerUnits = prev.units.filter(u => u.player === 'computer');
-      
-      if (playerUnits.length === 0) return { ...prev, winner: 'computer', turn: 'game_over', logs: [...prev.logs, "Defeat! Computer wins."] };
-      if (computerUnits.length === 0) return { ...prev, winner: 'player', turn: 'game_over', logs: [...prev.logs, "Victory! You win."] };
-      
-      return prev;
-    });
+  const resign = () => {
+    if (!window.confirm(`Resign the game as ${getSideName(gameState, viewer)}?`)) return;
+    dispatch({ type: 'resign', player: viewer });
   };
 
   const endPlayerTurn = () => {
-    setGameState(prev => {
-       const resetUnits = prev.units.map(u => 
-         u.player === 'player' 
-         ? { ...u, movesLeft: u.maxMoves, attacksLeft: 1, hasRotated: false } 
-         : u
-       );
-       return { ...prev, units: resetUnits, turn: 'computer', selectedUnitId: null, pendingAttack: null, combatState: null };
-    });
+    if (dispatch({ type: 'end_turn' }) && isHotseat) {
+      handOff(getOpponent(viewer));
+    }
   };
 
-  // 1. Compute AI Moves Local
+  // Stop any planning still running when the app goes away
+  useEffect(() => () => plannerRef.current.cancel(), []);
+
+  // 1. Compute AI Moves in the worker
   useEffect(() => {
-    if (gameState.turn === 'computer' && !gameState.winner && !isProcessingAI && !aiPlan) {
+    if (gameState.mode === 'vs_computer' && gameState.turn === 'computer' && !gameState.winner && !isProcessingAI && !aiPlan) {
+        if (shouldComputerResign(gameState)) {
+            setGameState(prev => prev.turn === 'computer' ? applyAction(prev, { type: 'resign', player: 'computer' }) : prev);
+            return;
+        }
         setIsProcessingAI(true);
+        setAiProgress({ progress: 0, detail: 'Starting...' });
         addLog(`Computer thinking (${gameState.difficulty})...`);
-        
-        // Use timeout to allow UI to render "thinking"
-        setTimeout(() => {
-           const plan = getComputerMovesLocal(gameState);
+
+        const finish = (plan: AIAction[], note: string | null = null) => {
+           if (note) addLog(note);
            setAiPlan(plan);
            setIsProcessingAI(false);
+           setAiProgress(null);
            addLog("Computer ready. Click 'Execute' to watch.");
-        }, 500);
+        };
+        plannerRef.current.plan(gameState, searchBudget, {
+           onProgress: (progress, detail) => setAiProgress({ progress, detail }),
+           onPlan: finish,
+           // Without a worker the quicker greedy planner still runs on the main thread
+           onError: (message) => {
+              addLog(`AI worker failed (${message}); planning on the main thread.`);
+              finish(getComputerMovesLocal(gameState.difficulty === 'llm' ? { ...gameState, difficulty: 'hard' } : gameState));
+           }
+        }, llmConfig);
     }
-  }, [gameState.turn, gameState.winner, isProcessingAI, aiPlan, gameState.difficulty]);
+  }, [gameState.turn, gameState.winner, isProcessingAI, aiPlan, gameState.difficulty, gameState.mode, searchBudget]);
 
   // 2. Execute AI Plan (Triggered by user button)
   const runComputerTurn = async () => {
@@ -553,112 +742,33 @@ export default function App() {
       
       await new Promise(r => setTimeout(r, 600)); 
 
-      if (action.actionType === 'move' && action.target) {
-        setGameState(current => {
-           const unit = current.units.find(u => u.id === action.unitId);
-           if (!unit) return current;
-           const isOccupied = getUnitAt(current.units, action.target!.x, action.target!.y);
-           if (isOccupied) return current;
-
-           // AI Rotation Logic (Auto-Rotate on Move)
-           let newRotation = unit.rotation;
-           if (action.target!.y < unit.y) newRotation = Direction.NORTH;
-           else if (action.target!.x > unit.x) newRotation = Direction.EAST;
-           else if (action.target!.y > unit.y) newRotation = Direction.SOUTH;
-           else if (action.target!.x < unit.x) newRotation = Direction.WEST;
-
-           // Deduct cost
-           const dist = Math.abs(unit.x - action.target!.x) + Math.abs(unit.y - action.target!.y);
-
-           const newUnits = current.units.map(u => u.id === unit.id ? { 
-               ...u, 
-               x: action.target!.x, 
-               y: action.target!.y, 
-               rotation: newRotation,
-               movesLeft: Math.max(0, u.movesLeft - dist)
-           } : u);
-           return { ...current, units: newUnits };
-        });
-        await new Promise(r => setTimeout(r, 600)); 
-
-      } else if (action.actionType === 'rotate' && action.direction !== undefined) {
-         setGameState(current => {
-           const unit = current.units.find(u => u.id === action.unitId);
-           if (!unit) return current;
-           const newUnits = current.units.map(u => u.id === unit.id ? { ...u, rotation: action.direction! } : u);
-           return { ...current, units: newUnits };
-         });
-         await new Promise(r => setTimeout(r, 300));
-
-      } else if (action.actionType === 'attack' && action.target) {
-         // Using ref to get current state ensures we don't have stale closures inside the loop
-         const current = gameStateRef.current;
-         const attacker = current.units.find(u => u.id === action.unitId);
-         const defender = getUnitAt(current.units, action.target!.x, action.target!.y);
+      // Using ref to get current state ensures we don't have stale closures inside the loop
+      const current = gameStateRef.current;
+
+      // Joint attacks are resolved as one combat with every surviving participant
+      const gameAction = toGameAction(current, action);
+      if (!gameAction || getActionError(current, gameAction)) continue;
+
+      if (gameAction.type === 'attack') {
+         // 1. Start Animation
+         setGameState(prev => ({ 
+             ...prev, 
+             combatState: { attackerIds: gameAction.attackerIds, defenderId: gameAction.targetId } 
+         }));
          
-         if (attacker && defender) {
-             // 1. Start Animation
-             setGameState(prev => ({ 
-                 ...prev, 
-                 combatState: { attackerIds: [attacker.id], defenderId: defender.id } 
-             }));
-             
-             // 2. Wait for animation
-             await new Promise(r => setTimeout(r, 800));
-
-             // 3. Resolve Combat
-             setGameState(prev => {
-                const atk = prev.units.find(u => u.id === action.unitId);
-                const def = getUnitAt(prev.units, action.target!.x, action.target!.y);
-                if (!atk || !def) return { ...prev, combatState: null }; 
-
-                const res = resolveCombat([atk], def, prev.computerSupport, prev.playerSupport);
-                
-                let newUnits = [...prev.units];
-                
-                if (res.winner === 'attacker') {
-                     // Defender Killed
-                     newUnits = newUnits.filter(u => u.id !== def.id);
-                } else if (res.winner === 'defender') {
-                     // Attacker Killed (Melee Rebound)
-                     newUnits = newUnits.filter(u => u.id !== atk.id);
-                }
-                
-                // Update attacker stats if still alive
-                if (newUnits.some(u => u.id === atk.id)) {
-                    newUnits = newUnits.map(u => u.id === atk.id ? { ...u, attacksLeft: 0 } : u);
-                }
-                
-                return { 
-                  ...prev, 
-                  units: newUnits, 
-                  combatState: null,
-                  logs: [...prev.logs, res.log]
-                };
-             });
-         }
+         // 2. Wait for animation
+         await new Promise(r => setTimeout(r, 800));
+
+         // 3. Resolve Combat
+         setGameState(prev => getActionError(prev, gameAction) ? { ...prev, combatState: null } : applyAction(prev, gameAction));
+      } else {
+        setGameState(prev => getActionError(prev, gameAction) ? prev : applyAction(prev, gameAction));
+        await new Promise(r => setTimeout(r, gameAction.type === 'move' ? 600 : 300));
       }
     }
 
     // Cleanup Computer Turn
-    setGameState(prev => {
-       const resetUnits = prev.units.map(u => 
-         u.player === 'computer' 
-         ? { ...u, movesLeft: u.maxMoves, attacksLeft: 1, hasRotated: false } 
-         : u
-       );
-       
-       const playerAlive = resetUnits.some(u => u.player === 'player');
-       const compAlive = resetUnits.some(u => u.player === 'computer');
-       let winner: Player | null = null;
-       let turn: any = 'player';
-       let logs = [...prev.logs, "Your Turn."];
-
-       if (!playerAlive) { winner = 'computer'; turn = 'game_over'; logs.push("Computer Wins!"); }
-       if (!compAlive) { winner = 'player'; turn = 'game_over'; logs.push("You Win!"); }
-
-       return { ...prev, units: resetUnits, turn, winner, logs, combatState: null };
-    });
+    setGameState(prev => prev.turn === 'computer' ? applyAction(prev, { type: 'end_turn' }) : prev);
     setAiPlan(null);
     setIsProcessingAI(false);
   };
@@ -669,19 +779,39 @@ export default function App() {
              <div className="p-4 bg-slate-800 rounded-lg shadow-lg space-y-4 text-center border-2 border-slate-600">
                 <h2 className="text-2xl font-bold text-white">GAME OVER</h2>
                 <div className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-yellow-400 to-red-500">
-                    {gameState.winner === 'player' ? "VICTORY!" : "DEFEAT"}
+                    {gameState.winner === 'draw' ? "DRAW"
+                      : isHotseat ? `${getSideName(gameState, gameState.winner ?? 'player').toUpperCase()} WINS!`
+                      : gameState.winner === viewer ? "VICTORY!" : "DEFEAT"}
                 </div>
+                <p className="text-sm text-slate-400">{getResultText(gameState)}</p>
                 <button 
-                  onClick={resetGame}
+                  onClick={() => resetGame()}
                   className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded font-bold text-white shadow-lg animate-pulse"
                 >
                   PLAY AGAIN
                 </button>
+                <button 
+                  onClick={() => setShowReplay(true)}
+                  className="w-full py-2 bg-slate-700 hover:bg-slate-600 rounded font-bold text-slate-200 border border-slate-600"
+                >
+                  Replay Game ({gameState.record.length} actions)
+                </button>
+             </div>
+         );
+     }
+
+     if (isOnline && (gameState.turn === 'player' || gameState.turn === 'computer') && gameState.turn !== viewer) {
+         return (
+             <div className="p-4 bg-slate-800 rounded-lg border border-slate-600 animate-pulse">
+                <p className="text-slate-300 font-bold text-center">
+                    Waiting for {getSideName(gameState, gameState.turn)}...
+                </p>
+                <button onClick={resign} className="mt-2 w-full text-xs text-red-300 hover:text-red-200">Resign</button>
              </div>
          );
      }
 
-     if (gameState.turn === 'computer') {
+     if (gameState.turn === 'computer' && !isHumanOpponent) {
          if (aiPlan && !isProcessingAI) {
              return (
                  <button 
@@ -695,16 +825,29 @@ export default function App() {
          return (
              <div className="p-4 bg-slate-800 rounded-lg border border-red-900 animate-pulse">
                 <p className="text-red-400 font-bold text-center">Computer Planning Strategy...</p>
+                {aiProgress && (
+                  <>
+                    <div className="mt-2 h-1.5 bg-slate-700 rounded overflow-hidden">
+                      <div className="h-full bg-red-500 transition-all" style={{ width: `${Math.round(aiProgress.progress * 100)}%` }}></div>
+                    </div>
+                    <p className="mt-1 text-[10px] text-slate-400 text-center">{aiProgress.detail}</p>
+                  </>
+                )}
              </div>
          );
      }
 
-     if (gameState.turn !== 'player') return null;
+     if (gameState.turn !== viewer || handoffTo) return null;
      const selectedUnit = gameState.units.find(u => u.id === gameState.selectedUnitId);
 
      // PENDING ATTACK CONTROLS
      if (gameState.pendingAttack) {
          const attackerCount = gameState.pendingAttack.attackerIds.length;
+         const chargers = gameState.units.filter(u =>
+           gameState.pendingAttack!.attackerIds.includes(u.id) && canCharge(u, gameState.rules)
+         );
+         const defender = gameState.units.find(u => u.id === gameState.pendingAttack!.targetId);
+         const verdictLabels: Record<CombatWinner, string> = { attacker: 'Win', defender: 'Loss', tie: 'Tie (nobody dies)' };
          return (
              <div className="p-4 bg-red-900/50 border border-red-500 rounded-lg shadow-lg space-y-3 animate-pulse">
                  <h2 className="text-xl font-bold text-red-200">Prepare Attack</h2>
@@ -714,6 +857,47 @@ export default function App() {
                  <div className="text-center font-bold text-2xl my-2">
                      {attackerCount} Unit{attackerCount !== 1 ? 's' : ''} Ready
                  </div>
+                 {attackPreview && defender && (
+                     <div className="text-xs bg-black/30 p-2 rounded font-mono space-y-1" title="Base + support + flank + charge">
+                         {attackPreview.attackers.map(s => {
+                             const unit = gameState.units.find(u => u.id === s.unitId)!;
+                             return (
+                                 <div key={s.unitId} className="flex justify-between">
+                                     <span>{unit.type} {squareName(unit.x, unit.y)}</span>
+                                     <span>
+                                         {s.base} +{s.support} sup{s.flank > 0 && <span className="text-yellow-300"> +{s.flank} flank</span>}
+                                         {s.charge > 0 && <span className="text-orange-300"> +{s.charge} charge</span>} = {s.total}
+                                     </span>
+                                 </div>
+                             );
+                         })}
+                         <div className="flex justify-between border-t border-red-800 pt-1">
+                             <span>Attack {attackPreview.atkTotal} vs {defender.type}</span>
+                             <span>
+                                 {attackPreview.overrun ? 'overrun'
+                                   : attackPreview.defMin === attackPreview.defMax ? attackPreview.defMin
+                                   : `${attackPreview.defMin}-${attackPreview.defMax} (hidden support)`}
+                             </span>
+                         </div>
+                         <div className={`text-center font-bold text-sm ${
+                           attackPreview.outcomes.length > 1 ? 'text-yellow-300'
+                             : attackPreview.outcomes[0] === 'attacker' ? 'text-green-400'
+                             : attackPreview.outcomes[0] === 'defender' ? 'text-red-400' : 'text-slate-300'
+                         }`}>
+                             {attackPreview.outcomes.length > 1 ? 'Uncertain: ' : ''}{attackPreview.outcomes.map(o => verdictLabels[o]).join(' / ')}
+                         </div>
+                     </div>
+                 )}
+                 {chargers.map(unit => (
+                     <label key={unit.id} className="flex items-center gap-2 text-sm text-red-100 cursor-pointer" title="Rule 13: +1 strength, giving up its remaining moves">
+                         <input
+                           type="checkbox"
+                           checked={gameState.pendingAttack!.chargeIds.includes(unit.id)}
+                           onChange={() => toggleCharge(unit.id)}
+                         />
+                         Charge with cavalry at {squareName(unit.x, unit.y)} (+1, ends its moves)
+                     </label>
+                 ))}
                  <div className="flex gap-2">
                      <button 
                        onClick={confirmPendingAttack}
@@ -736,24 +920,45 @@ export default function App() {
      return (
        <div className="p-4 bg-slate-800 rounded-lg shadow-lg space-y-3">
          <div className="flex justify-between items-center">
-            <h2 className="text-xl font-bold text-blue-400">Your Turn</h2>
+            <h2 className={`text-xl font-bold ${viewer === 'player' ? 'text-blue-400' : 'text-red-400'}`}>
+                {isHotseat ? `${getSideName(gameState, viewer)}'s Turn` : 'Your Turn'}
+            </h2>
             
             <div className="flex gap-2 items-center bg-slate-700/50 p-1.5 rounded-lg border border-slate-600">
+                {!isHumanOpponent && (
+                <>
                 <div className="flex flex-col leading-none">
                     <label className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mb-0.5">AI Difficulty</label>
                     <select 
                         value={gameState.difficulty} 
                         onChange={(e) => setGameState(p => ({...p, difficulty: e.target.value as Difficulty}))}
                         className="bg-slate-800 text-xs text-white rounded border border-slate-600 px-1 py-0.5 focus:outline-none focus:border-blue-500"
-                        title="Random: Chaotic; Easy: Simple moves; Hard: Strategic"
+                        title="Random: Chaotic; Easy: Simple moves; Hard: Strategic; Expert: Searches whole turns and the reply; Cheating: Sees your support lines; LLM: A language model plans, checked against the rules"
                     >
                         <option value="random">Random</option>
                         <option value="easy">Easy</option>
                         <option value="medium">Medium</option>
                         <option value="hard">Hard</option>
+                        <option value="expert">Expert</option>
+                        <option value="cheating">Cheating</option>
+                        <option value="llm">LLM</option>
+                    </select>
+                </div>
+                {gameState.difficulty === 'expert' && (
+                <div className="flex flex-col leading-none">
+                    <label className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mb-0.5">Think Time</label>
+                    <select
+                        value={searchBudget}
+                        onChange={(e) => setSearchBudget(Number(e.target.value))}
+                        className="bg-slate-800 text-xs text-white rounded border border-slate-600 px-1 py-0.5 focus:outline-none focus:border-blue-500"
+                    >
+                        {SEARCH_TIME_BUDGETS.map(ms => <option key={ms} value={ms}>{ms / 1000}s</option>)}
                     </select>
                 </div>
+                )}
                 <div className="h-6 w-px bg-slate-600 mx-1"></div>
+                </>
+                )}
                 <button 
                   onClick={endPlayerTurn}
                   className="px-3 py-2 bg-red-600 hover:bg-red-500 rounded font-bold text-xs shadow transition-colors"
@@ -763,13 +968,46 @@ export default function App() {
             </div>
          </div>
 
+         {!isHumanOpponent && gameState.difficulty === 'llm' && renderLLMSettings()}
+
          <div className="flex items-center justify-between bg-slate-700/50 p-2 rounded">
-             <span className="text-xs text-slate-400">Computer Support Lines:</span>
+             <span className="text-xs text-slate-400" title="Deduced from the support bonuses declared in combat">
+               Enemy lines deduced: {gameState.knowledge[viewer].deduced.length}/{gameState.rules.maxSupports}
+             </span>
+             {!isHumanOpponent && (
+             <button
+               onClick={toggleSandbox}
+               className={`text-xs px-2 py-1 rounded border ${gameState.sandbox ? 'bg-red-500/20 border-red-500 text-red-300' : 'border-slate-600 text-slate-400'}`}
+               title="Debug/sandbox: reveal every support line. Not a fair game."
+             >
+                 Sandbox: {gameState.sandbox ? 'On' : 'Off'}
+             </button>
+             )}
+         </div>
+
+         <div className="flex gap-2">
+             <button
+               onClick={() => isOnline ? onlineRef.current?.send({ type: 'undo' }) : setGameState(undo)}
+               disabled={!canUndo(gameState)}
+               className="flex-1 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 rounded text-xs text-slate-200 border border-slate-600"
+               title="Take back the last move or rotation (locked after an attack)"
+             >
+               ↶ Undo ({gameState.undoStack.length})
+             </button>
+             <button
+               onClick={() => isOnline ? onlineRef.current?.send({ type: 'redo' }) : setGameState(redo)}
+               disabled={!canRedo(gameState)}
+               className="flex-1 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 rounded text-xs text-slate-200 border border-slate-600"
+               title="Replay the last undone action"
+             >
+               Redo ({gameState.redoStack.length}) ↷
+             </button>
              <button
-               onClick={() => setGameState(prev => ({...prev, showComputerSupport: !prev.showComputerSupport}))}
-               className={`text-xs px-2 py-1 rounded border ${gameState.showComputerSupport ? 'bg-red-500/20 border-red-500 text-red-300' : 'border-slate-600 text-slate-400'}`}
+               onClick={resign}
+               className="py-1.5 px-3 bg-red-900/40 hover:bg-red-800 rounded text-xs text-red-200 border border-red-800"
+               title="Concede the game (rule 16)"
              >
-                 {gameState.showComputerSupport ? 'Hide' : 'Show'}
+               Resign
              </button>
          </div>
 
@@ -784,6 +1022,17 @@ export default function App() {
                 </span>
              </div>
              
+             <div className="text-xs bg-slate-700 p-2 rounded" title="Rule 9 action combinations">
+                 <div className="flex justify-between">
+                    <span>Taken:</span>
+                    <span className="text-slate-300">{selectedUnit.actions.length ? selectedUnit.actions.join(' → ') : 'nothing yet'}</span>
+                 </div>
+                 <div className="flex justify-between">
+                    <span>Still allowed:</span>
+                    <span className="font-bold text-green-400">{getRemainingActions(selectedUnit).join(', ') || 'none'}</span>
+                 </div>
+             </div>
+
              <div className="text-xs bg-slate-700 p-2 rounded">
                  <div className="flex justify-between">
                     <span>Base Strength:</span>
@@ -792,7 +1041,7 @@ export default function App() {
                  <div className="flex justify-between">
                     <span>Support Bonus:</span>
                     <span className="font-bold text-blue-400">
-                        +{calculateBaseStrength(selectedUnit, gameState.playerSupport) - 1}
+                        +{calculateBaseStrength(selectedUnit, getSupportLines(gameState, viewer)) - 1}
                     </span>
                  </div>
              </div>
@@ -826,20 +1075,87 @@ export default function App() {
      );
   };
 
+  const attackPreview = gameState.pendingAttack
+    ? previewCombat(gameState, gameState.pendingAttack.attackerIds, gameState.pendingAttack.targetId, gameState.pendingAttack.chargeIds)
+    : null;
+
   const selectedUnit = gameState.units.find(u => u.id === gameState.selectedUnitId);
-  // Generate 1-based coordinates
-  const validMoves = (selectedUnit && gameState.turn === 'player' && !gameState.pendingAttack) 
-    ? Array.from({length: GRID_SIZE*GRID_SIZE}).map((_, i) => ({x: (i%GRID_SIZE)+1, y: Math.floor(i/GRID_SIZE)+1}))
-        .filter(c => isValidMove(selectedUnit, c.x, c.y, gameState.units) && selectedUnit.movesLeft > 0)
+  const validMoves = (selectedUnit && gameState.turn === viewer && !gameState.pendingAttack) 
+    ? getLegalActions(gameState).flatMap(a => a.type === 'move' && a.unitId === selectedUnit.id ? [{ x: a.x, y: a.y }] : [])
     : [];
   
-  const validTargets = (selectedUnit && gameState.turn === 'player')
-    ? getValidAttackTargets(selectedUnit, gameState.units).map(u => ({x: u.x, y: u.y}))
+  const validTargets = (selectedUnit && gameState.turn === viewer)
+    ? getValidAttackTargets(selectedUnit, gameState.units, gameState.rules).map(u => ({x: u.x, y: u.y}))
     : [];
 
+  // Support lines and hidden deployments visible to whoever is at the screen
+  const isGameOver = gameState.turn === 'game_over';
+  const visiblePlayerLines = getKnownSupportLines(gameState, viewer, 'player');
+  const visibleComputerLines = getKnownSupportLines(gameState, viewer, 'computer');
+  // Game options are fixed once somebody has bought an army (online: once the room exists)
+  const canChangeOptions = isOnline ? !onlineRoom && !onlineStatus : getArmySize(gameState.reserves.player) === 0;
+  const visibleUnits = isHumanOpponent && gameState.turn === 'setup_placement'
+    ? gameState.units.filter(u => u.player === viewer)
+    : gameState.units;
+
   return (
     <div className="flex flex-col lg:flex-row h-screen p-4 gap-4 items-center lg:items-start justify-center overflow-hidden relative">
       
+      {/* Hot-seat Hand-off Screen: fully opaque so the next player cannot see the previous one's secrets */}
+      {handoffTo && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center bg-slate-950 p-4">
+            <div className="max-w-sm w-full text-center space-y-6">
+                <h2 className={`text-3xl font-bold ${handoffTo === 'player' ? 'text-blue-400' : 'text-red-400'}`}>
+                    Pass the device to {getSideName(gameState, handoffTo)}
+                </h2>
+                <p className="text-sm text-slate-400">
+                    {getSideName(gameState, getOpponent(handoffTo))}, please look away. Your support lines stay hidden.
+                </p>
+                <button 
+                    onClick={() => setHandoffTo(null)}
+                    className={`w-full py-3 rounded font-bold text-white shadow-lg ${handoffTo === 'player' ? 'bg-blue-600 hover:bg-blue-500' : 'bg-red-600 hover:bg-red-500'}`}
+                >
+                    I am {getSideName(gameState, handoffTo)} &mdash; Continue
+                </button>
+            </div>
+        </div>
+      )}
+
+      {/* Resume Prompt */}
+      {resumeCandidate && (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+            <div className="bg-slate-800 rounded-lg max-w-sm w-full border border-slate-700 shadow-2xl p-6 space-y-4 text-center">
+                <h2 className="text-xl font-bold text-white">Resume last game?</h2>
+                <p className="text-sm text-slate-400">
+                    Saved {new Date(resumeCandidate.savedAt).toLocaleString()} &middot; Phase: {resumeCandidate.state.turn} &middot; {resumeCandidate.state.units.length} units on board
+                </p>
+                <div className="flex gap-2">
+                    <button 
+                        onClick={() => loadSavedGame(resumeCandidate)}
+                        className="flex-1 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-bold"
+                    >
+                        Resume
+                    </button>
+                    <button 
+                        onClick={discardSavedGame}
+                        className="flex-1 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded font-bold"
+                    >
+                        New Game
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+
+      {/* Replay Viewer */}
+      {showReplay && (
+        <ReplayViewer
+          initialState={replayInitialState}
+          record={gameState.record}
+          onClose={() => setShowReplay(false)}
+        />
+      )}
+
       {/* Rules Modal */}
       {showRules && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
@@ -854,6 +1170,10 @@ export default function App() {
                     </button>
                 </div>
                 <div className="p-6 overflow-y-auto text-sm text-slate-300 leading-relaxed whitespace-pre-wrap font-mono scrollbar-hide">
+                    <div className="mb-4 p-3 bg-slate-900/50 rounded border border-slate-700">
+                        <h3 className="font-bold text-white mb-1">Playing: {gameState.rules.name}</h3>
+                        {describeRuleSet(gameState.rules).map(line => <div key={line}>- {line}</div>)}
+                    </div>
                     {RULES_TEXT}
                 </div>
                 <div className="p-4 border-t border-slate-700 bg-slate-900/50 rounded-b-lg text-right">
@@ -868,13 +1188,64 @@ export default function App() {
         </div>
       )}
 
+      {/* Load Position Modal */}
+      {positionText !== null && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+            <div className="bg-slate-800 rounded-lg max-w-2xl w-full flex flex-col border border-slate-700 shadow-2xl">
+                <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-slate-900/50 rounded-t-lg">
+                    <h2 className="text-xl font-bold text-white">Load Position</h2>
+                    <button 
+                        onClick={() => setPositionText(null)}
+                        className="text-slate-400 hover:text-white text-2xl font-bold px-2"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <div className="p-6 flex flex-col gap-3 text-sm text-slate-300">
+                    <p>
+                        Board rows from the top separated by <span className="font-mono">/</span>, digits for empty squares,
+                        units as <span className="font-mono">I A C</span> (Blue) or <span className="font-mono">i a c</span> (Red) plus facing <span className="font-mono">n e s w</span>.
+                        Then side to move (<span className="font-mono">b</span>/<span className="font-mono">r</span>), Blue's and Red's support lines
+                        (<span className="font-mono">r6,c4</span> or <span className="font-mono">-</span>), difficulty, and optionally rule set, turn number and passive turns.
+                    </p>
+                    <textarea
+                        value={positionText}
+                        onChange={(e) => { setPositionText(e.target.value); setPositionError(null); }}
+                        rows={3}
+                        spellCheck={false}
+                        placeholder="2asas3/2isiscs2/7/7/7/2InIn3/3AnAn2 b r6,c4 r2,c5 hard"
+                        className="w-full bg-slate-900 text-white font-mono text-xs rounded border border-slate-600 p-2 focus:outline-none focus:border-blue-500"
+                    />
+                    {positionError && <div className="text-red-400 text-xs">{positionError}</div>}
+                </div>
+                <div className="p-4 border-t border-slate-700 bg-slate-900/50 rounded-b-lg flex justify-end gap-2">
+                    <button 
+                        onClick={() => setPositionText(null)}
+                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-bold"
+                    >
+                        Cancel
+                    </button>
+                    <button 
+                        onClick={loadPosition}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-bold"
+                    >
+                        Load
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+
       <div className="flex-shrink-0 flex justify-center w-full lg:w-auto">
         <div className="w-full max-w-[600px] aspect-square">
           <Board 
-            units={gameState.units}
-            playerSupport={gameState.playerSupport}
-            computerSupport={gameState.computerSupport}
-            showComputerSupport={gameState.showComputerSupport}
+            units={visibleUnits}
+            playerSupport={visiblePlayerLines}
+            computerSupport={visibleComputerLines}
+            showComputerSupport={true}
+            viewer={viewer}
+            gridSize={gameState.gridSize}
+            deploymentZone={getDeploymentZone(viewer, gameState.gridSize)}
             onTileClick={handleTileClick}
             onSupportToggle={toggleSupport}
             selectedUnitId={gameState.selectedUnitId}
@@ -883,6 +1254,7 @@ export default function App() {
             phase={gameState.turn}
             combatState={gameState.combatState}
             pendingAttack={gameState.pendingAttack}
+            flankingIds={attackPreview?.attackers.filter(s => s.flank > 0).map(s => s.unitId)}
           />
         </div>
       </div>
@@ -894,7 +1266,7 @@ export default function App() {
               Skrimish 7x7
             </h1>
             <div className="text-xs text-slate-400 mt-1">
-               {gameState.turn === 'game_over' ? `Winner: ${gameState.winner?.toUpperCase()}` : `Current Phase: ${gameState.turn}`}
+               {gameState.turn === 'game_over' ? getResultText(gameState) : `Current Phase: ${gameState.turn}`}
             </div>
           </div>
           <div className="flex flex-col gap-2 items-end">
@@ -905,18 +1277,192 @@ export default function App() {
                 Display Rules
              </button>
              <button 
-                onClick={resetGame}
+                onClick={() => resetGame()}
                 className="text-xs px-3 py-1 bg-red-900/40 hover:bg-red-800 rounded text-red-200 border border-red-800 transition-colors w-full shadow-sm"
              >
                 Reset Game
              </button>
+             <div className="flex gap-1 w-full">
+               <button 
+                  onClick={() => exportToFile(gameState, aiPlan)}
+                  className="flex-1 text-xs px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 border border-slate-600 transition-colors"
+                  title="Download the current game as JSON"
+               >
+                  Export
+               </button>
+               <button 
+                  onClick={() => importInputRef.current?.click()}
+                  className="flex-1 text-xs px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 border border-slate-600 transition-colors"
+                  title="Load a game from an exported JSON file"
+               >
+                  Import
+               </button>
+               <button 
+                  onClick={openPositionDialog}
+                  className="flex-1 text-xs px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 border border-slate-600 transition-colors"
+                  title="Copy the current position as text, or start from a written one"
+               >
+                  Position
+               </button>
+               <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+               <input ref={personalityInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handlePersonalityFile} />
+             </div>
           </div>
         </div>
 
+        {isOnline && !onlineRoom && (
+            <div className="p-4 bg-slate-800 rounded-lg shadow-lg space-y-3 border border-slate-700">
+               <h2 className="text-lg font-bold text-purple-300">Online Lobby</h2>
+               <label className="block text-xs text-slate-400">
+                 Relay server
+                 <input 
+                   value={relayUrl}
+                   onChange={(e) => setRelayUrl(e.target.value)}
+                   className="mt-1 w-full bg-slate-900 text-xs text-white rounded border border-slate-600 px-2 py-1 font-mono"
+                 />
+               </label>
+               <button 
+                 onClick={() => connectOnline({ type: 'create_room', armyBudget: gameState.armyBudget, gridSize: gameState.gridSize, ruleSet: gameState.rules.id }, relayUrl)}
+                 disabled={!!onlineStatus}
+                 className="w-full py-2 bg-purple-700 hover:bg-purple-600 disabled:opacity-50 rounded font-bold text-white text-sm"
+               >
+                 Create Room
+               </button>
+               <div className="flex gap-2">
+                 <input 
+                   value={roomCode}
+                   onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                   placeholder="Room code"
+                   className="flex-1 bg-slate-900 text-sm text-white rounded border border-slate-600 px-2 py-1 font-mono uppercase"
+                 />
+                 <button 
+                   onClick={() => roomCode.trim() && connectOnline({ type: 'join_room', roomId: roomCode.trim() }, relayUrl)}
+                   disabled={!!onlineStatus || !roomCode.trim()}
+                   className="px-4 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded font-bold text-white text-sm border border-slate-600"
+                 >
+                   Join
+                 </button>
+               </div>
+               {onlineStatus && <p className="text-xs text-slate-400">Connection: {onlineStatus}</p>}
+            </div>
+        )}
+
+        {isOnline && onlineRoom && (
+            <div className="px-4 py-2 bg-slate-800 rounded-lg border border-slate-700 text-xs text-slate-300 flex flex-wrap gap-x-4 gap-y-1 items-center">
+               <span>Room <span className="font-mono font-bold text-white">{onlineRoom.roomId}</span></span>
+               <span>You are <span className={`font-bold ${viewer === 'player' ? 'text-blue-400' : 'text-red-400'}`}>{getSideName(gameState, viewer)}</span></span>
+               <span className={onlineRoom.opponentConnected ? 'text-green-400' : 'text-yellow-400'}>
+                 {onlineRoom.opponentConnected ? 'Opponent connected' : 'Waiting for opponent'}
+               </span>
+               {onlineStatus !== 'connected' && <span className="text-orange-400">{onlineStatus}...</span>}
+            </div>
+        )}
+
+        {gameState.turn === 'setup_army' && (
+             <div className="p-4 bg-slate-800 rounded-lg shadow-lg">
+               <div className="flex justify-between items-center mb-2">
+                 <h2 className={`text-xl font-bold ${viewer === 'player' ? 'text-blue-400' : 'text-red-400'}`}>
+                   Army{isHumanOpponent ? ` (${getSideName(gameState, viewer)})` : ''}
+                 </h2>
+                 <select 
+                   value={gameState.mode}
+                   onChange={(e) => resetGame({ mode: e.target.value as GameMode })}
+                   className="bg-slate-900 text-xs text-white rounded border border-slate-600 px-1 py-0.5"
+                   title="Changing the mode restarts the game"
+                 >
+                   <option value="vs_computer">vs Computer</option>
+                   <option value="hotseat">Hot-seat (2 players)</option>
+                   <option value="online">Online (2 players)</option>
+                 </select>
+               </div>
+               <div className="flex justify-between items-center mb-4 text-xs text-slate-500">
+                 <span>Kept secret until deployment. Cavalry 2 pts, others 1 pt.</span>
+                 {canChangeOptions && (
+                   <div className="flex gap-1">
+                     <select 
+                       value={gameState.gridSize}
+                       onChange={(e) => resetGame({ gridSize: parseInt(e.target.value, 10) })}
+                       className="bg-slate-900 text-xs text-white rounded border border-slate-600 px-1 py-0.5"
+                       title="Board size"
+                     >
+                       {GRID_SIZES.map(n => <option key={n} value={n}>{n}x{n}</option>)}
+                     </select>
+                     <select 
+                       value={gameState.armyBudget}
+                       onChange={(e) => resetGame({ armyBudget: parseInt(e.target.value, 10) })}
+                       className="bg-slate-900 text-xs text-white rounded border border-slate-600 px-1 py-0.5"
+                       title="Point budget for both sides"
+                     >
+                       {ARMY_BUDGETS.map(b => <option key={b} value={b}>{b} pts</option>)}
+                     </select>
+                     <select 
+                       value={gameState.rules.id}
+                       onChange={(e) => resetGame({ rules: RULE_SETS[e.target.value as RuleSetId] })}
+                       className="bg-slate-900 text-xs text-white rounded border border-slate-600 px-1 py-0.5"
+                       title="Rule set (see Rules)"
+                     >
+                       {Object.values(RULE_SETS).map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                     </select>
+                   </div>
+                 )}
+               </div>
+
+               {!isHumanOpponent && (
+                 <div className="flex items-end gap-2 mb-4">
+                   {renderPersonalityPicker()}
+                   <span className="text-[10px] text-slate-500">{gameState.personality.description}</span>
+                 </div>
+               )}
+
+               <div className="space-y-2 mb-4">
+                 {[UnitType.INFANTRY, UnitType.ARCHER, UnitType.CAVALRY].map((type) => (
+                   <div key={type} className="flex items-center justify-between bg-slate-700/50 px-3 py-2 rounded">
+                     <span className="text-sm font-bold text-slate-200">{type} <span className="text-xs text-slate-400 font-normal">({UNIT_COSTS[type]} pt)</span></span>
+                     <div className="flex items-center gap-2">
+                       <button 
+                         onClick={() => changeArmyDraft(type, -1)}
+                         disabled={armyDraft[type] === 0}
+                         className="w-7 h-7 bg-slate-600 hover:bg-slate-500 disabled:opacity-40 rounded font-bold text-white"
+                       >
+                         -
+                       </button>
+                       <span className="w-5 text-center text-lg font-bold text-white">{armyDraft[type]}</span>
+                       <button 
+                         onClick={() => changeArmyDraft(type, 1)}
+                         disabled={getArmySize(armyDraft) >= MAX_ARMY_SIZE || getArmyCost(armyDraft) + UNIT_COSTS[type] > gameState.armyBudget}
+                         className="w-7 h-7 bg-slate-600 hover:bg-slate-500 disabled:opacity-40 rounded font-bold text-white"
+                       >
+                         +
+                       </button>
+                     </div>
+                   </div>
+                 ))}
+               </div>
+
+               <div className="flex justify-between text-xs mb-4">
+                 <span className={getArmyCost(armyDraft) > gameState.armyBudget ? 'text-red-400' : 'text-slate-300'}>
+                   Points left: {gameState.armyBudget - getArmyCost(armyDraft)}/{gameState.armyBudget}
+                 </span>
+                 <span className="text-slate-300">Units: {getArmySize(armyDraft)}/{MAX_ARMY_SIZE}</span>
+               </div>
+
+               <button 
+                 onClick={confirmArmy}
+                 disabled={isOnline && (!onlineRoom || onlineRoom.ready[viewer])}
+                 className="w-full py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 rounded font-bold text-white shadow-lg border-b-4 border-blue-800 active:border-b-0 active:mt-1"
+               >
+                 {isHotseat && viewer === 'player' ? 'Done: Pass to Red'
+                   : isOnline ? (onlineRoom?.ready[viewer] ? 'Waiting for opponent...' : 'Ready: Deploy')
+                   : 'Confirm Army'}
+               </button>
+             </div>
+        )}
         {gameState.turn === 'setup_placement' && (
              <div className="p-4 bg-slate-800 rounded-lg shadow-lg">
-               <h2 className="text-xl font-bold mb-2 text-blue-400">Deployment</h2>
-               <p className="text-xs text-slate-500 mb-4">1. Select Type. 2. Click Blue Zone.</p>
+               <h2 className={`text-xl font-bold mb-2 ${viewer === 'player' ? 'text-blue-400' : 'text-red-400'}`}>
+                 Deployment{isHumanOpponent ? ` (${getSideName(gameState, viewer)})` : ''}
+               </h2>
+               <p className="text-xs text-slate-500 mb-4">1. Select Type. 2. Click Highlighted Zone.</p>
                
                <div className="grid grid-cols-3 gap-2 mb-4">
                  {[UnitType.INFANTRY, UnitType.ARCHER, UnitType.CAVALRY].map((type) => (
@@ -942,7 +1488,9 @@ export default function App() {
                  onClick={finishPlacement}
                  className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded font-bold text-white shadow-lg border-b-4 border-blue-800 active:border-b-0 active:mt-1"
                >
-                 Next Phase: Set Supports
+                 {isHotseat && viewer === 'player' ? 'Done: Pass to Red'
+                   : isOnline ? (onlineRoom?.ready[viewer] ? 'Waiting for opponent...' : 'Ready: Set Supports')
+                   : 'Next Phase: Set Supports'}
                </button>
 
                <button 
@@ -955,18 +1503,22 @@ export default function App() {
         )}
         {gameState.turn === 'setup_support' && (
             <div className="p-4 bg-slate-800 rounded-lg shadow-lg">
-               <h2 className="text-xl font-bold mb-2 text-blue-400">Supply Lines</h2>
-               <p className="text-xs text-slate-500 mb-4">Click headers to toggle ({gameState.playerSupport.length}/3)</p>
+               <h2 className={`text-xl font-bold mb-2 ${viewer === 'player' ? 'text-blue-400' : 'text-red-400'}`}>
+                 Supply Lines{isHumanOpponent ? ` (${getSideName(gameState, viewer)})` : ''}
+               </h2>
+               <p className="text-xs text-slate-500 mb-4">Click headers to toggle ({getSupportLines(gameState, viewer).length}/{gameState.rules.maxSupports})</p>
                
                <button 
                  onClick={finishSetup}
                  className="w-full py-3 bg-green-600 hover:bg-green-500 rounded font-bold text-white shadow-lg border-b-4 border-green-800 active:border-b-0 active:mt-1"
                >
-                 START GAME
+                 {isHotseat && viewer === 'computer' ? 'Done: Pass to Blue'
+                   : isOnline ? (onlineRoom?.ready[viewer] ? 'Waiting for opponent...' : 'Ready: START GAME')
+                   : 'START GAME'}
                </button>
-               {gameState.playerSupport.length < 3 && (
+               {getSupportLines(gameState, viewer).length < gameState.rules.maxSupports && (
                  <p className="text-[10px] text-yellow-500/70 text-center mt-2">
-                   Warning: You are starting with fewer than 3 supports.
+                   Warning: You are starting with fewer than {gameState.rules.maxSupports} supports.
                  </p>
                )}
             </div>
@@ -0,0 +1,296 @@
+import { createInterface } from 'readline';
+import { Difficulty, GameAction, GameOptions, GameState, RuleSetId, UnitType } from '../types';
+import { DEFAULT_ARMY_BUDGET, DEFAULT_GRID_SIZE, ARMY_BUDGETS, GRID_SIZES, UNIT_COSTS, MAX_ARMY_SIZE, getUnitAt, getRemainingActions } from '../services/gameLogic';
+import {
+  applyAction, createInitialState, getActionError, isInDeploymentZone, canUndo, canRedo, undo, redo, getResultText
+} from '../services/engine';
+import { RULE_SETS } from '../services/rules';
+import { AI_PERSONALITIES, DEFAULT_PERSONALITY } from '../services/personalities';
+import { getKnownSupportLines, previewCombat } from '../services/knowledge';
+import { formatAction, parseNotation, squareName } from '../services/notation';
+import { getComputerArmy, getComputerMovesLocal, getInitialComputerState, shouldComputerResign, toGameAction } from '../services/aiLogic';
+import { getComputerMovesSearch } from '../services/searchAI';
+
+// Text-mode client: play Blue against the computer in a terminal, e.g. over SSH.
+// Run with `npm run play -- --difficulty hard`. Everything is typed in the game notation
+// (services/notation.ts), so a session can be replayed by piping the same lines in again.
+
+const USAGE = `Usage: npm run play -- [options]
+  --difficulty D     random, easy, medium, hard, expert or cheating (default medium)
+  --personality P    ${Object.keys(AI_PERSONALITIES).join(', ')} (default ${DEFAULT_PERSONALITY})
+  --grid N           board size (default ${DEFAULT_GRID_SIZE})
+  --army N           army budget (default ${DEFAULT_ARMY_BUDGET})
+  --rules ID         rule set: ${Object.keys(RULE_SETS).join(', ')} (default app)
+  --no-color         plain text output (also when NO_COLOR is set)`;
+
+const HELP = `Commands (game notation, squares like c6 = column c, row 6):
+  $I2A2C2        buy 2 infantry, 2 archers, 2 cavalry
+  I@c6           place a unit (I/A/C) in your zone, marked +
+  S+r4  S-c3     add or remove a support line (row 4, column 3)
+  *              finish deployment / support selection
+  c6-c5          move; d7=d5 for a cavalry double step
+  c5>E           rotate to N, E, S or W
+  c5+d5!xd4      attack d4 with c5 and d5 together, ! = d5 charges
+  /              end your turn
+  preview c5xd4  show what an attack can come to before making it
+  units          your units and what they can still do
+  undo  redo     take back or replay a move or rotation (not past an attack)
+  board  record  help  resign  quit`;
+
+// Every difficulty but the LLM opponent, which needs the browser app's endpoint settings
+const DIFFICULTIES: Difficulty[] = ['random', 'easy', 'medium', 'hard', 'expert', 'cheating'];
+const ARROWS = ['↑', '→', '↓', '←'];
+const UNIT_LETTERS: Record<UnitType, string> = { [UnitType.INFANTRY]: 'I', [UnitType.ARCHER]: 'A', [UnitType.CAVALRY]: 'C' };
+
+interface PlayOptions {
+  difficulty: Difficulty;
+  personality: string;
+  gameOptions: Partial<GameOptions>;
+  color: boolean;
+}
+
+const parseArgs = (args: string[]): PlayOptions => {
+  const options: PlayOptions = {
+    difficulty: 'medium', personality: DEFAULT_PERSONALITY, gameOptions: {}, color: !!process.stdout.isTTY && !process.env.NO_COLOR
+  };
+  const parseNumber = (flag: string, value: string | undefined, allowed: number[]): number => {
+    const n = Number(value);
+    if (!allowed.includes(n)) throw new Error(`${flag} must be one of ${allowed.join(', ')}.`);
+    return n;
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--no-color') {
+      options.color = false;
+      continue;
+    }
+    const value = args[++i];
+    switch (arg) {
+      case '--difficulty':
+        if (!DIFFICULTIES.includes(value as Difficulty)) throw new Error(`--difficulty must be one of ${DIFFICULTIES.join(', ')}.`);
+        options.difficulty = value as Difficulty;
+        break;
+      case '--personality':
+        if (!AI_PERSONALITIES[value]) throw new Error(`Unknown personality "${value}".`);
+        options.personality = value;
+        break;
+      case '--grid': options.gameOptions.gridSize = parseNumber(arg, value, GRID_SIZES); break;
+      case '--army': options.gameOptions.armyBudget = parseNumber(arg, value, ARMY_BUDGETS); break;
+      case '--rules': {
+        const rules = RULE_SETS[value as RuleSetId];
+        if (!rules) throw new Error(`Unknown rule set "${value}".`);
+        options.gameOptions.rules = rules;
+        break;
+      }
+      default: throw new Error(`Unknown option ${arg}.`);
+    }
+  }
+  return options;
+};
+
+const createRenderer = (color: boolean) => {
+  const paint = (code: number, text: string) => color ? `\x1b[${code}m${text}\x1b[0m` : text;
+  const blue = (text: string) => paint(94, text);
+  const red = (text: string) => paint(91, text);
+  const dim = (text: string) => paint(2, text);
+
+  // Blue units in uppercase, Red in lowercase, so the board reads without colours too.
+  // Support lines are marked beside their row and under their column: S for yours,
+  // s for Red's once they are deduced (all of them when the game is over).
+  const renderBoard = (state: GameState): string => {
+    const { gridSize } = state;
+    const own = state.playerSupport;
+    const enemy = getKnownSupportLines(state, 'player', 'computer');
+    const marker = (type: 'row' | 'col', index: number) =>
+      (own.some(l => l.type === type && l.index === index) ? blue('S') : ' ') +
+      (enemy.some(l => l.type === type && l.index === index) ? red('s') : ' ');
+    const columns = Array.from({ length: gridSize }, (_, i) => i + 1);
+
+    const lines = [`    ${columns.map(x => ` ${String.fromCharCode(96 + x)} `).join('')}`];
+    for (let y = 1; y <= gridSize; y++) {
+      const cells = columns.map(x => {
+        const unit = getUnitAt(state.units, x, y);
+        if (!unit) {
+          const inZone = state.turn === 'setup_placement' && isInDeploymentZone('player', gridSize, x, y);
+          return dim(inZone ? ' + ' : ' . ');
+        }
+        const letter = UNIT_LETTERS[unit.type];
+        return unit.player === 'player'
+          ? blue(` ${letter}${ARROWS[unit.rotation]}`)
+          : red(` ${letter.toLowerCase()}${ARROWS[unit.rotation]}`);
+      });
+      lines.push(`${String(y).padStart(2)}  ${cells.join('')}  ${marker('row', y)}`);
+    }
+    lines.push(`    ${columns.map(x => ` ${marker('col', x)}`).join('')}`);
+    return lines.join('\n');
+  };
+
+  return { renderBoard, blue, red, dim };
+};
+
+const describeUnits = (state: GameState): string => {
+  const units = state.units.filter(u => u.player === 'player');
+  if (units.length === 0) return "You have no units on the board.";
+  return units.map(u => {
+    const remaining = getRemainingActions(u);
+    return `  ${squareName(u.x, u.y)} ${u.type} facing ${'NESW'[u.rotation]}, moves ${u.movesLeft}, attacks ${u.attacksLeft}` +
+      (state.turn === 'player' ? ` - can ${remaining.length ? remaining.join(', ') : 'do nothing more'}` : '');
+  }).join('\n');
+};
+
+// What the player is expected to type next
+const getPrompt = (state: GameState): string => {
+  switch (state.turn) {
+    case 'setup_army':
+      return `Buy your army: up to ${state.armyBudget} points, ${MAX_ARMY_SIZE} units (infantry ${UNIT_COSTS[UnitType.INFANTRY]}, archer ${UNIT_COSTS[UnitType.ARCHER]}, cavalry ${UNIT_COSTS[UnitType.CAVALRY]}), e.g. $I2A2C2`;
+    case 'setup_placement': {
+      const left = Object.entries(state.reserves.player).filter(([, n]) => n > 0).map(([type, n]) => `${n} ${type}`).join(', ');
+      return left ? `Place your units in the + squares, e.g. I@c6 (left: ${left}); * when done` : "All units placed; * to continue";
+    }
+    case 'setup_support':
+      return `Choose up to ${state.rules.maxSupports} support lines, e.g. S+r6 or S+c3; * to start the battle`;
+    case 'player':
+      return "Your turn (help lists the commands; / ends the turn)";
+    default:
+      return "";
+  }
+};
+
+const main = async () => {
+  let options: PlayOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const { renderBoard, red } = createRenderer(options.color);
+
+  let state: GameState = {
+    ...createInitialState(options.difficulty, 'vs_computer', { ...options.gameOptions, personality: AI_PERSONALITIES[options.personality] }),
+    logs: []
+  };
+  let printedLogs = 0;
+
+  const printLogs = () => {
+    state.logs.slice(printedLogs).forEach(line => console.log(`  ${line}`));
+    printedLogs = state.logs.length;
+  };
+
+  const apply = (action: GameAction) => {
+    state = applyAction(state, action);
+  };
+
+  const showPosition = () => {
+    console.log(`\n${renderBoard(state)}\n`);
+    const prompt = getPrompt(state);
+    if (prompt) console.log(prompt);
+  };
+
+  // Plays the computer's turn through, printing each action in notation
+  const playComputerTurn = () => {
+    console.log(red(`\nComputer (${state.difficulty}, ${state.personality.name}) is playing...`));
+    if (shouldComputerResign(state)) {
+      apply({ type: 'resign', player: 'computer' });
+      printLogs();
+      return;
+    }
+    const plan = state.difficulty === 'expert' ? getComputerMovesSearch(state) : getComputerMovesLocal(state);
+    for (const planned of plan) {
+      if (planned.actionType === 'end_turn') break;
+      const action = toGameAction(state, planned);
+      if (!action || getActionError(state, action)) continue;
+      console.log(red(`  ${formatAction(state, action)}`));
+      apply(action);
+      printLogs();
+      if (state.turn !== 'computer') return;
+    }
+    apply({ type: 'end_turn' });
+    printLogs();
+  };
+
+  // Against the computer the army is confirmed in one go, as in the app: it buys and deploys right away
+  const buyArmy = (action: GameAction) => {
+    apply(action);
+    apply({ type: 'set_army', player: 'computer', army: getComputerArmy(state.difficulty, state.armyBudget) });
+    apply({ type: 'finish_army' });
+    state = getInitialComputerState(state);
+    printedLogs = state.logs.length;
+  };
+
+  const handleNotation = (text: string) => {
+    const action = parseNotation(state, text);
+    if ('player' in action && action.player !== 'player') throw new Error("You play Blue: use uppercase letters (I@c6, S+r4, $I2A2C2).");
+    const error = getActionError(state, action);
+    if (error) throw new Error(error);
+
+    if (action.type === 'set_army') {
+      buyArmy(action);
+    } else {
+      apply(action);
+      printLogs();
+    }
+    while (state.turn === 'computer') playComputerTurn();
+  };
+
+  const handlePreview = (text: string) => {
+    const action = parseNotation(state, text);
+    if (action.type !== 'attack') throw new Error("preview needs an attack, e.g. preview c5+d5xd4");
+    const preview = previewCombat(state, action.attackerIds, action.targetId, action.chargeIds ?? []);
+    if (!preview) throw new Error("No such attack.");
+    const error = getActionError(state, action);
+    const defence = preview.overrun ? 'archer overrun' : preview.defMin === preview.defMax ? `${preview.defMin}` : `${preview.defMin}-${preview.defMax}`;
+    console.log(`  Attack ${preview.atkTotal} vs defence ${defence}: ${preview.outcomes.map(o => o === 'attacker' ? 'win' : o === 'defender' ? 'loss' : 'tie').join(' or ')}`);
+    if (error) console.log(`  Not possible now: ${error}`);
+  };
+
+  console.log(`Skrimish ${state.gridSize}x${state.gridSize} - you are ${options.color ? 'Blue' : 'Blue (uppercase)'} at the bottom. Type help for commands.`);
+  showPosition();
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: !!process.stdin.isTTY });
+  rl.setPrompt('> ');
+  rl.prompt();
+
+  const runCommand = (line: string) => {
+    if (line === 'help') {
+      console.log(HELP);
+    } else if (line === 'board') {
+      showPosition();
+    } else if (line === 'units') {
+      console.log(describeUnits(state));
+    } else if (line === 'record') {
+      // Red's support lines stay secret until the game is over
+      const visible = state.record.filter(r => state.turn === 'game_over' || !/^s[+-]/.test(r.notation));
+      console.log(visible.map(r => `${r.turn}. ${r.notation}`).join('  ') || "Nothing played yet.");
+    } else if (line === 'undo' || line === 'redo') {
+      if (!(line === 'undo' ? canUndo(state) : canRedo(state))) throw new Error(`Nothing to ${line}.`);
+      state = line === 'undo' ? undo(state) : redo(state);
+      printedLogs = state.logs.length;
+      showPosition();
+    } else if (line.startsWith('preview ')) {
+      handlePreview(line.slice('preview '.length));
+    } else {
+      handleNotation(line === 'resign' ? 'Resign' : line);
+      showPosition();
+    }
+  };
+
+  for await (const input of rl) {
+    const line = input.trim();
+    if (line === 'quit' || line === 'exit') break;
+    try {
+      if (line) runCommand(line);
+    } catch (error) {
+      console.log(`  ${(error as Error).message}`);
+    }
+    if (state.turn === 'game_over') {
+      console.log(`\n${getResultText(state)}`);
+      break;
+    }
+    rl.prompt();
+  }
+  rl.close();
+};
+
+main();
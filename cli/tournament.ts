@@ -0,0 +1,340 @@
+import { writeFileSync } from 'fs';
+import { AIPersonality, Difficulty, EndReason, GameAction, GameOptions, GameState, Player, RuleSetId } from '../types';
+import { UNIT_COSTS, DEFAULT_ARMY_BUDGET, DEFAULT_GRID_SIZE, ARMY_BUDGETS, GRID_SIZES } from '../services/gameLogic';
+import { applyAction, createInitialState, getActionError } from '../services/engine';
+import { RULE_SETS } from '../services/rules';
+import { AI_PERSONALITIES, DEFAULT_PERSONALITY } from '../services/personalities';
+import {
+  getComputerArmy, getComputerDeployment, getComputerMovesLocal, getComputerSupportPlacement, shouldComputerResign, toGameAction
+} from '../services/aiLogic';
+import { getComputerMovesSearch, SEARCH_TIME_BUDGET_MS } from '../services/searchAI';
+import { mirrorAIAction, mirrorSquare, mirrorState, mirrorSupportLine } from '../services/mirror';
+
+// Headless AI-vs-AI tournament: every pair of entrants plays seeded games from both sides
+// (Blue always moves first), then the results come out as an Elo table and optional reports.
+// Run with `npm run tournament -- hard medium:aggressive expert --games 10 --csv results.csv`.
+// An entrant is a difficulty, optionally followed by a personality id.
+// Expert search stops on a time budget, so its games only repeat exactly on an equally fast machine.
+
+const USAGE = `Usage: npm run tournament -- <entrant> <entrant> [...] [options]
+  entrant            difficulty[:personality], e.g. hard, expert:turtle
+                     difficulties: random, easy, medium, hard, expert, cheating
+                     personalities: ${Object.keys(AI_PERSONALITIES).join(', ')}
+  --games N          games per pairing and side (default 5)
+  --seed N           seed of the first game (default 1)
+  --grid N           board size (default ${DEFAULT_GRID_SIZE})
+  --army N           army budget (default ${DEFAULT_ARMY_BUDGET})
+  --rules ID         rule set: ${Object.keys(RULE_SETS).join(', ')} (default app)
+  --budget MS        expert think time per turn (default ${SEARCH_TIME_BUDGET_MS})
+  --max-turns N      declare a draw after this many turns (default 200)
+  --csv FILE         write one row per game
+  --json FILE        write the table and every game`;
+
+const DIFFICULTIES: Difficulty[] = ['random', 'easy', 'medium', 'hard', 'expert', 'cheating'];
+const SIDES: Player[] = ['player', 'computer'];
+const ELO_START = 1500;
+const ELO_K = 16;
+
+interface Entrant {
+  name: string;
+  difficulty: Difficulty;
+  personality: AIPersonality;
+}
+
+interface TournamentOptions {
+  entrants: Entrant[];
+  games: number;
+  seed: number;
+  gameOptions: Partial<GameOptions>;
+  budgetMs: number;
+  maxTurns: number;
+  csv: string | null;
+  json: string | null;
+}
+
+interface GameResult {
+  game: number;
+  seed: number;
+  blue: string;
+  red: string;
+  winner: 'blue' | 'red' | 'draw';
+  endReason: EndReason | 'turn_limit';
+  turns: number;
+  blueMaterial: number; // Army points left on the board at the end
+  redMaterial: number;
+  illegalActions: number; // Planned actions the engine refused (skipped, as the board view does)
+  ms: number;
+}
+
+interface Standing {
+  name: string;
+  elo: number;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  turns: number;
+  materialBalance: number; // Own minus opponent material at the end, summed over games
+}
+
+// mulberry32: small, fast and good enough to make games repeatable
+const createRng = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const parseEntrant = (spec: string): Entrant => {
+  const [difficulty, personalityId = DEFAULT_PERSONALITY] = spec.split(':');
+  if (!DIFFICULTIES.includes(difficulty as Difficulty)) throw new Error(`Unknown difficulty "${difficulty}".`);
+  const personality = AI_PERSONALITIES[personalityId];
+  if (!personality) throw new Error(`Unknown personality "${personalityId}".`);
+  return { name: spec, difficulty: difficulty as Difficulty, personality };
+};
+
+const parseNumber = (flag: string, value: string | undefined, allowed?: number[]): number => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${flag} needs a whole number.`);
+  if (allowed && !allowed.includes(n)) throw new Error(`${flag} must be one of ${allowed.join(', ')}.`);
+  return n;
+};
+
+const parseArgs = (args: string[]): TournamentOptions => {
+  const options: TournamentOptions = {
+    entrants: [], games: 5, seed: 1, gameOptions: {}, budgetMs: SEARCH_TIME_BUDGET_MS, maxTurns: 200, csv: null, json: null
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      options.entrants.push(parseEntrant(arg));
+      continue;
+    }
+    const value = args[++i];
+    switch (arg) {
+      case '--games': options.games = parseNumber(arg, value); break;
+      case '--seed': options.seed = parseNumber(arg, value); break;
+      case '--grid': options.gameOptions.gridSize = parseNumber(arg, value, GRID_SIZES); break;
+      case '--army': options.gameOptions.armyBudget = parseNumber(arg, value, ARMY_BUDGETS); break;
+      case '--budget': options.budgetMs = parseNumber(arg, value); break;
+      case '--max-turns': options.maxTurns = parseNumber(arg, value); break;
+      case '--csv': options.csv = value ?? null; break;
+      case '--json': options.json = value ?? null; break;
+      case '--rules': {
+        const rules = RULE_SETS[value as RuleSetId];
+        if (!rules) throw new Error(`Unknown rule set "${value}".`);
+        options.gameOptions.rules = rules;
+        break;
+      }
+      default: throw new Error(`Unknown option ${arg}.`);
+    }
+  }
+  if (options.entrants.length < 2) throw new Error("Name at least two entrants.");
+  // The same entrant twice measures the first-move advantage; keep the names apart
+  options.entrants.forEach((e, i) => {
+    const earlier = options.entrants.slice(0, i).filter(o => o.name.split('#')[0] === e.name).length;
+    if (earlier > 0) e.name = `${e.name}#${earlier + 1}`;
+  });
+  return options;
+};
+
+// The position as the given side's planner expects it: its own units on 'computer' at the top
+const getView = (state: GameState, side: Player, entrant: Entrant): GameState => ({
+  ...(side === 'computer' ? state : mirrorState(state)),
+  difficulty: entrant.difficulty,
+  personality: entrant.personality
+});
+
+const getMaterial = (state: GameState, side: Player): number =>
+  state.units.filter(u => u.player === side).reduce((sum, u) => sum + UNIT_COSTS[u.type], 0);
+
+// Setup must never fail: a refused action here is a bug in the computer's setup code
+const applySetup = (state: GameState, action: GameAction): GameState => {
+  const error = getActionError(state, action);
+  if (error) throw new Error(`Setup action ${JSON.stringify(action)} refused: ${error}`);
+  return applyAction(state, action);
+};
+
+const setUpGame = (players: Record<Player, Entrant>, gameOptions: Partial<GameOptions>): GameState => {
+  let state = createInitialState('hard', 'vs_computer', gameOptions);
+  const { gridSize } = state;
+  SIDES.forEach(side => {
+    state = applySetup(state, { type: 'set_army', player: side, army: getComputerArmy(players[side].difficulty, state.armyBudget) });
+  });
+  state = applySetup(state, { type: 'finish_army' });
+
+  SIDES.forEach(side => {
+    getComputerDeployment(getView(state, side, players[side])).forEach(({ unitType, ...square }) => {
+      const { x, y } = side === 'computer' ? square : mirrorSquare(square, gridSize);
+      state = applySetup(state, { type: 'place_unit', player: side, unitType, x, y });
+    });
+    // Support lines are chosen with the formation in place, as in the app
+    getComputerSupportPlacement(getView(state, side, players[side])).forEach(planned => {
+      const line = side === 'computer' ? planned : mirrorSupportLine(planned, gridSize);
+      state = applySetup(state, { type: 'toggle_support', player: side, lineType: line.type, index: line.index });
+    });
+  });
+  state = applySetup(state, { type: 'finish_placement' });
+  return applySetup(state, { type: 'finish_setup' });
+};
+
+// The engine and the planners draw from Math.random (unit ids, move sampling), so a game is
+// seeded by swapping it out for the game's duration only
+const withSeededRandom = <T>(seed: number, run: () => T): T => {
+  const random = Math.random;
+  Math.random = createRng(seed);
+  try {
+    return run();
+  } finally {
+    Math.random = random;
+  }
+};
+
+const playGame = (game: number, seed: number, players: Record<Player, Entrant>, options: TournamentOptions): GameResult => withSeededRandom(seed, () => {
+  const started = Date.now();
+  let state = setUpGame(players, options.gameOptions);
+  let illegalActions = 0;
+
+  while ((state.turn === 'player' || state.turn === 'computer') && state.turnNumber <= options.maxTurns) {
+    const side: Player = state.turn;
+    const entrant = players[side];
+    const view = getView(state, side, entrant);
+    if (shouldComputerResign(view)) {
+      state = applyAction(state, { type: 'resign', player: side });
+      break;
+    }
+
+    const plan = entrant.difficulty === 'expert' ? getComputerMovesSearch(view, options.budgetMs) : getComputerMovesLocal(view);
+    for (const planned of plan) {
+      if (planned.actionType === 'end_turn') break;
+      const action = toGameAction(state, side === 'computer' ? planned : mirrorAIAction(planned, state.gridSize));
+      if (!action) continue;
+      if (getActionError(state, action)) {
+        illegalActions++;
+        continue;
+      }
+      state = applyAction(state, action);
+      if (state.turn !== side) break;
+    }
+    if (state.turn === side) state = applyAction(state, { type: 'end_turn' });
+  }
+
+  const finished = state.turn === 'game_over';
+  return {
+    game,
+    seed,
+    blue: players.player.name,
+    red: players.computer.name,
+    winner: !finished || state.winner === 'draw' ? 'draw' : state.winner === 'player' ? 'blue' : 'red',
+    endReason: finished ? state.endReason ?? 'elimination' : 'turn_limit',
+    turns: finished ? state.turnNumber : options.maxTurns,
+    blueMaterial: getMaterial(state, 'player'),
+    redMaterial: getMaterial(state, 'computer'),
+    illegalActions,
+    ms: Date.now() - started
+  };
+});
+
+// Ratings are updated game by game in the order played
+const getStandings = (entrants: Entrant[], results: GameResult[]): Standing[] => {
+  const standings = new Map(entrants.map(e => [e.name, {
+    name: e.name, elo: ELO_START, games: 0, wins: 0, draws: 0, losses: 0, turns: 0, materialBalance: 0
+  } as Standing]));
+
+  results.forEach(r => {
+    const blue = standings.get(r.blue)!;
+    const red = standings.get(r.red)!;
+    const blueScore = r.winner === 'blue' ? 1 : r.winner === 'draw' ? 0.5 : 0;
+    const expected = 1 / (1 + Math.pow(10, (red.elo - blue.elo) / 400));
+    const change = ELO_K * (blueScore - expected);
+    blue.elo += change;
+    red.elo -= change;
+
+    ([[blue, blueScore, r.blueMaterial - r.redMaterial], [red, 1 - blueScore, r.redMaterial - r.blueMaterial]] as [Standing, number, number][])
+      .forEach(([s, score, balance]) => {
+        s.games++;
+        if (score === 1) s.wins++;
+        else if (score === 0) s.losses++;
+        else s.draws++;
+        s.turns += r.turns;
+        s.materialBalance += balance;
+      });
+  });
+  return [...standings.values()].sort((a, b) => b.elo - a.elo);
+};
+
+const formatTable = (standings: Standing[]): string => {
+  const rows = [
+    ['#', 'Entrant', 'Elo', 'Games', 'W', 'D', 'L', 'Score', 'Avg turns', 'Avg material'],
+    ...standings.map((s, i) => [
+      String(i + 1),
+      s.name,
+      s.elo.toFixed(0),
+      String(s.games),
+      String(s.wins),
+      String(s.draws),
+      String(s.losses),
+      s.games ? `${(100 * (s.wins + s.draws / 2) / s.games).toFixed(1)}%` : '-',
+      s.games ? (s.turns / s.games).toFixed(1) : '-',
+      s.games ? (s.materialBalance / s.games).toFixed(2) : '-'
+    ])
+  ];
+  const widths = rows[0].map((_, c) => Math.max(...rows.map(r => r[c].length)));
+  return rows.map(r => r.map((cell, c) => c === 1 ? cell.padEnd(widths[c]) : cell.padStart(widths[c])).join('  ')).join('\n');
+};
+
+const toCsv = (results: GameResult[]): string => {
+  const columns: (keyof GameResult)[] = ['game', 'seed', 'blue', 'red', 'winner', 'endReason', 'turns', 'blueMaterial', 'redMaterial', 'illegalActions', 'ms'];
+  return [columns.join(','), ...results.map(r => columns.map(c => String(r[c])).join(','))].join('\n') + '\n';
+};
+
+const main = () => {
+  let options: TournamentOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const results: GameResult[] = [];
+  const pairings = options.entrants.flatMap((a, i) => options.entrants.slice(i + 1).map(b => [a, b]));
+  const total = pairings.length * options.games * 2;
+  let seed = options.seed;
+
+  pairings.forEach(([a, b]) => {
+    for (let i = 0; i < options.games; i++, seed++) {
+      // Mirrored pair: the same seed with the sides swapped
+      [{ player: a, computer: b }, { player: b, computer: a }].forEach(players => {
+        const result = playGame(results.length + 1, seed, players, options);
+        results.push(result);
+        const outcome = result.winner === 'draw' ? 'draw' : `${result.winner === 'blue' ? result.blue : result.red} wins`;
+        console.log(`Game ${result.game}/${total} (seed ${seed}) ${result.blue} (Blue) vs ${result.red} (Red): ${outcome}, ${result.endReason}, ${result.turns} turns`);
+      });
+    }
+  });
+
+  const standings = getStandings(options.entrants, results);
+  console.log(`\n${formatTable(standings)}`);
+  const illegal = results.reduce((sum, r) => sum + r.illegalActions, 0);
+  if (illegal > 0) console.log(`\n${illegal} planned actions were refused by the engine.`);
+
+  if (options.csv) {
+    writeFileSync(options.csv, toCsv(results));
+    console.log(`Games written to ${options.csv}`);
+  }
+  if (options.json) {
+    const { entrants, gameOptions, ...settings } = options;
+    const report = {
+      settings: { ...settings, rules: gameOptions.rules?.id ?? 'app', gridSize: gameOptions.gridSize ?? DEFAULT_GRID_SIZE, armyBudget: gameOptions.armyBudget ?? DEFAULT_ARMY_BUDGET },
+      entrants: entrants.map(e => ({ name: e.name, difficulty: e.difficulty, personality: e.personality.id })),
+      standings,
+      games: results
+    };
+    writeFileSync(options.json, JSON.stringify(report, null, 2));
+    console.log(`Report written to ${options.json}`);
+  }
+};
+
+main();
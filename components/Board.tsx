@@ -1,12 +1,15 @@
 import React from 'react';
 import { Unit, UnitType, Coordinate, SupportLine, Player, PendingAttack } from '../types';
-import { GRID_SIZE } from '../services/gameLogic';
+import { getRemainingActions } from '../services/gameLogic';
 
 interface BoardProps {
   units: Unit[];
   playerSupport: SupportLine[];
   computerSupport: SupportLine[];
   showComputerSupport: boolean;
+  gridSize: number;
+  viewer?: Player; // Side currently looking at the board
+  deploymentZone?: Coordinate[]; // Highlighted during setup_placement
   onTileClick: (x: number, y: number) => void;
   onSupportToggle?: (type: 'row' | 'col', index: number) => void;
   selectedUnitId: string | null;
@@ -15,6 +18,7 @@ interface BoardProps {
   phase: string;
   combatState: { attackerIds: string[], defenderId: string } | null;
   pendingAttack: PendingAttack | null;
+  flankingIds?: string[]; // Pending attackers that would get the flank bonus
 }
 
 const UnitIcon: React.FC<{ type: UnitType; player: Player }> = ({ type, player }) => {
@@ -71,6 +75,9 @@ const Board: React.FC<BoardProps> = ({
   playerSupport, 
   computerSupport,
   showComputerSupport,
+  gridSize,
+  viewer = 'player',
+  deploymentZone = [],
   onTileClick, 
   onSupportToggle,
   selectedUnitId, 
@@ -78,10 +85,18 @@ const Board: React.FC<BoardProps> = ({
   validTargets,
   phase,
   combatState,
-  pendingAttack
+  pendingAttack,
+  flankingIds = []
 }) => {
   // 1-Based Indices
-  const indices = Array.from({ length: GRID_SIZE }, (_, i) => i + 1);
+  const indices = Array.from({ length: gridSize }, (_, i) => i + 1);
+
+  // Smaller tiles on larger boards so the board keeps roughly the same footprint
+  const [cellSize, rowHeaderHeight] = gridSize <= 7
+    ? ['w-10 h-10 sm:w-14 sm:h-14 md:w-16 md:h-16', 'h-10 sm:h-14 md:h-16']
+    : gridSize <= 9
+      ? ['w-8 h-8 sm:w-11 sm:h-11 md:w-12 md:h-12', 'h-8 sm:h-11 md:h-12']
+      : ['w-7 h-7 sm:w-9 sm:h-9 md:w-10 md:h-10', 'h-7 sm:h-9 md:h-10'];
 
   // Common styles for support lines to match visual weight
   const lineStyleBase = "absolute pointer-events-none z-0";
@@ -93,7 +108,7 @@ const Board: React.FC<BoardProps> = ({
     <div className="relative inline-block bg-slate-900 p-2 rounded-xl border-4 border-slate-700 shadow-2xl select-none">
       
       {/* Grid Layout */}
-      <div className="grid gap-1" style={{ gridTemplateColumns: `3rem repeat(${GRID_SIZE}, minmax(0, 1fr))` }}>
+      <div className="grid gap-1" style={{ gridTemplateColumns: `3rem repeat(${gridSize}, minmax(0, 1fr))` }}>
         
         {/* Top-Left Empty */}
         <div className="w-12 h-12"></div>
@@ -132,7 +147,7 @@ const Board: React.FC<BoardProps> = ({
             <div 
                onClick={() => onSupportToggle && onSupportToggle('row', y)}
                className={`
-                 w-12 h-10 sm:h-14 md:h-16 flex flex-row items-center justify-center font-bold text-sm transition-all relative
+                 w-12 ${rowHeaderHeight} flex flex-row items-center justify-center font-bold text-sm transition-all relative
                  ${phase === 'setup_support' ? 'cursor-pointer hover:bg-slate-700' : ''}
                  text-slate-500
                `}
@@ -156,11 +171,7 @@ const Board: React.FC<BoardProps> = ({
               const isValidMoveTile = validMoves.some(m => m.x === x && m.y === y);
               const isValidTargetTile = validTargets.some(t => t.x === x && t.y === y);
               
-              let isDeploymentZone = false;
-              if (phase === 'setup_placement') {
-                 // 1-Based: Rows 6,7. Cols 3,4,5.
-                 if (y >= 6 && x >= 3 && x <= 5) isDeploymentZone = true;
-              }
+              const isDeploymentZone = phase === 'setup_placement' && deploymentZone.some(c => c.x === x && c.y === y);
 
               // Highlight Pending Attack Target
               const isPendingTarget = pendingAttack?.targetId && 
@@ -172,7 +183,7 @@ const Board: React.FC<BoardProps> = ({
                   key={`${x}-${y}`}
                   onClick={() => onTileClick(x, y)}
                   className={`
-                    relative w-10 h-10 sm:w-14 sm:h-14 md:w-16 md:h-16 
+                    relative ${cellSize}
                     rounded border transition-colors duration-200
                     ${isValidMoveTile ? 'bg-green-900/40 border-green-500/70 hover:bg-green-800/60 cursor-pointer' : ''}
                     ${isValidTargetTile ? 'bg-red-900/30 border-red-500/50 hover:bg-red-800/60 cursor-pointer' : ''}
@@ -200,26 +211,28 @@ const Board: React.FC<BoardProps> = ({
            const isPendingTarget = pendingAttack?.targetId === unit.id;
 
            // Adjust positioning for 1-based indexing
-           // (val - 1) * 100/GRID_SIZE
-           const left = (unit.x - 1) * (100 / GRID_SIZE);
-           const top = (unit.y - 1) * (100 / GRID_SIZE);
+           // (val - 1) * 100/gridSize
+           const left = (unit.x - 1) * (100 / gridSize);
+           const top = (unit.y - 1) * (100 / gridSize);
 
            const isAttacking = combatState?.attackerIds.includes(unit.id);
            const isDefending = combatState?.defenderId === unit.id;
            
-           const isExhausted = unit.movesLeft === 0 && unit.attacksLeft === 0 && unit.player === 'player';
+           const isExhausted = getRemainingActions(unit).length === 0 && unit.player === viewer;
 
            return (
              <div
                key={unit.id}
                className={`
-                 absolute w-[14.28%] h-[14.28%] flex items-center justify-center
+                 absolute flex items-center justify-center
                  transition-all duration-500 ease-in-out z-20
                  ${isSelected || isPendingAttacker ? 'z-30' : ''}
                `}
                style={{ 
                    left: `${left}%`, 
-                   top: `${top}%`
+                   top: `${top}%`,
+                   width: `${100 / gridSize}%`,
+                   height: `${100 / gridSize}%`
                }}
              >
                 <div className={`
@@ -245,6 +258,11 @@ const Board: React.FC<BoardProps> = ({
                       </div>
                     )}
 
+                    {/* Flank Bonus Badge */}
+                    {isPendingAttacker && flankingIds.includes(unit.id) && (
+                      <div className="absolute -bottom-3 left-1/2 transform -translate-x-1/2 bg-yellow-500 text-[8px] px-1 rounded text-black font-bold z-50">FLANK +1</div>
+                    )}
+
                     {/* Pending Target Crosshair */}
                     {isPendingTarget && (
                        <div className="absolute inset-[-10px] border-4 border-red-600 rounded-full opacity-70">
@@ -268,7 +286,7 @@ const Board: React.FC<BoardProps> = ({
                     <UnitIcon type={unit.type} player={unit.player} />
 
                     {/* Moves Indicator */}
-                    {unit.movesLeft < unit.maxMoves && unit.player === 'player' && !isExhausted && (
+                    {unit.movesLeft < unit.maxMoves && unit.player === viewer && !isExhausted && (
                        <div className="absolute top-0 right-0 w-2 h-2 rounded-full bg-gray-400 animate-pulse"></div>
                     )}
                 </div>
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import Board from './Board';
+import { GameState, RecordEntry } from '../types';
+import { replayRecord, getResultText } from '../services/engine';
+
+interface ReplayViewerProps {
+  initialState: GameState;
+  record: RecordEntry[];
+  onClose: () => void;
+}
+
+const AUTOPLAY_DELAY_MS = 800;
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ initialState, record, onClose }) => {
+  // frames[i] is the position after the first i record entries
+  const { states: frames, error } = useMemo(() => replayRecord(initialState, record), [initialState, record]);
+  const [frame, setFrame] = useState(frames.length - 1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const activeEntryRef = useRef<HTMLSpanElement>(null);
+
+  const lastFrame = frames.length - 1;
+  const state = frames[frame];
+  const turns = Array.from(new Set(record.slice(0, lastFrame).map(e => e.turn)));
+
+  // Autoplay
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (frame >= lastFrame) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrame(f => f + 1), AUTOPLAY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frame, lastFrame]);
+
+  useEffect(() => {
+    activeEntryRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [frame]);
+
+  const jumpToTurn = (turn: number) => {
+    setIsPlaying(false);
+    // Position just before the first action of that turn
+    const index = record.findIndex(e => e.turn === turn);
+    if (index >= 0) setFrame(Math.min(index, lastFrame));
+  };
+
+  const step = (delta: number) => {
+    setIsPlaying(false);
+    setFrame(f => Math.max(0, Math.min(lastFrame, f + delta)));
+  };
+
+  const controlClass = "px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 rounded font-bold text-sm text-white";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 rounded-lg max-w-5xl w-full max-h-[95vh] flex flex-col lg:flex-row gap-4 p-4 border border-slate-700 shadow-2xl overflow-auto">
+        <div className="flex-shrink-0 w-full max-w-[520px] aspect-square">
+          <Board
+            units={state.units}
+            playerSupport={state.playerSupport}
+            computerSupport={state.computerSupport}
+            showComputerSupport={true}
+            gridSize={state.gridSize}
+            onTileClick={() => {}}
+            selectedUnitId={null}
+            validMoves={[]}
+            validTargets={[]}
+            phase="replay"
+            combatState={null}
+            pendingAttack={null}
+          />
+        </div>
+
+        <div className="flex flex-col gap-3 flex-1 min-w-0">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-white">Replay</h2>
+            <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl font-bold px-2">&times;</button>
+          </div>
+
+          <div className="text-xs text-slate-400">
+            Step {frame}/{lastFrame} &middot; {state.turn === 'game_over' ? getResultText(state) : `Phase: ${state.turn}`}
+            {frame > 0 && <> &middot; Last: <span className="font-mono text-slate-200">{record[frame - 1].notation}</span></>}
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <button onClick={() => step(-lastFrame)} disabled={frame === 0} className={controlClass} title="First">⏮</button>
+            <button onClick={() => step(-1)} disabled={frame === 0} className={controlClass} title="Step back">◀</button>
+            <button
+              onClick={() => { if (frame >= lastFrame) setFrame(0); setIsPlaying(p => !p); }}
+              className={`${controlClass} flex-1 ${isPlaying ? 'bg-orange-700 hover:bg-orange-600' : ''}`}
+            >
+              {isPlaying ? 'Pause' : 'Autoplay'}
+            </button>
+            <button onClick={() => step(1)} disabled={frame === lastFrame} className={controlClass} title="Step forward">▶</button>
+            <button onClick={() => step(lastFrame)} disabled={frame === lastFrame} className={controlClass} title="Last">⏭</button>
+          </div>
+
+          <label className="text-xs text-slate-400 flex items-center gap-2">
+            Jump to turn
+            <select
+              value={frame < lastFrame ? record[frame].turn : ''}
+              onChange={(e) => jumpToTurn(parseInt(e.target.value, 10))}
+              className="bg-slate-900 text-xs text-white rounded border border-slate-600 px-1 py-0.5"
+            >
+              <option value="" disabled>-</option>
+              {turns.map(t => <option key={t} value={t}>{t === 0 ? 'Setup' : `Turn ${t}`}</option>)}
+            </select>
+          </label>
+
+          {error && <p className="text-xs text-red-400">Replay stopped: {error}</p>}
+
+          <div className="flex-1 min-h-[8rem] bg-black/30 rounded p-2 overflow-y-auto font-mono text-xs border border-slate-700 leading-6">
+            {record.map((entry, i) => {
+              const isNewTurn = i === 0 || record[i - 1].turn !== entry.turn;
+              const isActive = i === frame - 1;
+              return (
+                <React.Fragment key={i}>
+                  {isNewTurn && (
+                    <div className="text-slate-500 mt-1">{entry.turn === 0 ? 'Setup' : `${entry.turn}. ${entry.side}`}</div>
+                  )}
+                  <span
+                    ref={isActive ? activeEntryRef : undefined}
+                    onClick={() => { setIsPlaying(false); setFrame(Math.min(i + 1, lastFrame)); }}
+                    className={`
+                      inline-block mr-2 px-1 rounded cursor-pointer
+                      ${isActive ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-700'}
+                      ${i >= lastFrame ? 'opacity-40 cursor-not-allowed' : ''}
+                    `}
+                  >
+                    {entry.notation}
+                  </span>
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,99 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+
+// Stand-in for an OpenAI-compatible chat endpoint, so the LLM opponent can be tried without
+// internet access or a real model. It reads the position block of services/llmService.ts and
+// answers with one simple action per unit: attack what it can, otherwise step toward the enemy.
+// Run with `npm run mock-llm` (PORT defaults to 8080) and use http://localhost:8080/v1 as base URL.
+// MOCK_LLM_BAD_FIRST=1 makes every first answer illegal, to exercise the repair round.
+
+const PORT = Number(process.env.PORT) || 8080;
+const BAD_FIRST = process.env.MOCK_LLM_BAD_FIRST === '1';
+
+interface MockUnit {
+  id: string;
+  x: number;
+  y: number;
+  legalMoves: { x: number, y: number }[];
+  attackableNow: { x: number, y: number }[];
+}
+
+interface MockPosition {
+  yourUnits: MockUnit[];
+  enemyUnits: { x: number, y: number }[];
+}
+
+const readPosition = (prompt: string): MockPosition | null => {
+  const match = prompt.match(/```json\n([\s\S]*?)\n```/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]) as MockPosition;
+  } catch {
+    return null;
+  }
+};
+
+const planTurn = (position: MockPosition) => {
+  const taken = new Set([...position.yourUnits, ...position.enemyUnits].map(u => `${u.x},${u.y}`));
+  const distanceToEnemy = (x: number, y: number) =>
+    Math.min(...position.enemyUnits.map(e => Math.abs(e.x - x) + Math.abs(e.y - y)));
+
+  const actions: object[] = [];
+  position.yourUnits.forEach(unit => {
+    if (unit.attackableNow.length > 0) {
+      actions.push({ unitId: unit.id, actionType: 'attack', target: unit.attackableNow[0] });
+      return;
+    }
+    const step = unit.legalMoves
+      .filter(m => !taken.has(`${m.x},${m.y}`) && Math.abs(m.x - unit.x) + Math.abs(m.y - unit.y) === 1)
+      .sort((a, b) => distanceToEnemy(a.x, a.y) - distanceToEnemy(b.x, b.y))[0];
+    if (!step || distanceToEnemy(step.x, step.y) >= distanceToEnemy(unit.x, unit.y)) return;
+    taken.delete(`${unit.x},${unit.y}`);
+    taken.add(`${step.x},${step.y}`);
+    actions.push({ unitId: unit.id, actionType: 'move', target: step });
+  });
+  actions.push({ unitId: 'global', actionType: 'end_turn' });
+  return actions;
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The browser calls straight from the game page
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, null);
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) return send(res, 404, { error: 'not found' });
+
+  let messages: { role: string, content: string }[];
+  try {
+    messages = JSON.parse(await readBody(req)).messages;
+  } catch {
+    return send(res, 400, { error: 'invalid JSON' });
+  }
+  const prompts = messages.filter(m => m.role === 'user');
+  const position = prompts.length > 0 ? readPosition(prompts[0].content) : null;
+  const actions = position ? planTurn(position) : [{ unitId: 'global', actionType: 'end_turn' }];
+  // A unit that does not exist: the repair prompt should bring the legal plan back
+  if (BAD_FIRST && prompts.length === 1) actions.unshift({ unitId: 'no-such-unit', actionType: 'move', target: { x: 1, y: 1 } });
+
+  send(res, 200, {
+    object: 'chat.completion',
+    model: 'mock',
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: JSON.stringify(actions) } }]
+  });
+});
+
+server.listen(PORT, () => console.log(`Mock LLM endpoint on http://localhost:${PORT}/v1`));
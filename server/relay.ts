@@ -0,0 +1,293 @@
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { GameState, GameAction, Player, UnitType, ClientMessage, ServerMessage } from '../types';
+import { createInitialState, applyAction, getActionError, getOpponent, getEmptyArmy, undo, redo, canUndo, canRedo } from '../services/engine';
+import { ARMY_BUDGETS, GRID_SIZES, getArmySize } from '../services/gameLogic';
+import { RULE_SETS } from '../services/rules';
+
+// Minimal relay for online games: hosts rooms, keeps the authoritative GameState
+// and sends each seat only what that side is allowed to see.
+// Run with `npm run server` (PORT defaults to 8787).
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOM_IDLE_MS = 60 * 60 * 1000;
+
+interface Seat {
+  token: string;
+  socket: WebSocket | null;
+}
+
+interface Room {
+  id: string;
+  state: GameState;
+  seats: Partial<Record<Player, Seat>>;
+  // Both sides must confirm before the shared setup phases advance
+  ready: Record<Player, boolean>;
+  lastActivity: number;
+}
+
+const rooms = new Map<string, Room>();
+const socketSeats = new Map<WebSocket, { room: Room, seat: Player }>();
+
+const createRoomId = (): string => {
+  let id: string;
+  do {
+    id = Math.random().toString(36).substr(2, 5).toUpperCase();
+  } while (rooms.has(id));
+  return id;
+};
+
+const send = (socket: WebSocket | null | undefined, message: ServerMessage) => {
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+// Hides what the given seat must not know: the opponent's support lines (and their record
+// entries) until the game is over, and the opponent's army and deployment until it is revealed.
+const redactState = (state: GameState, seat: Player): GameState => {
+  if (state.turn === 'game_over') return state;
+  const opponent = getOpponent(seat);
+  const opponentSupport = opponent === 'player' ? /^S[+-]/ : /^s[+-]/;
+  const opponentPlacement = opponent === 'player' ? /^[IAC]@/ : /^[iac]@/;
+  const opponentArmy = opponent === 'player' ? /^\$[IAC]/ : /^\$[iac]/;
+  const hideDeployment = state.turn === 'setup_army' || state.turn === 'setup_placement';
+
+  return {
+    ...state,
+    playerSupport: seat === 'player' ? state.playerSupport : [],
+    computerSupport: seat === 'computer' ? state.computerSupport : [],
+    units: hideDeployment ? state.units.filter(u => u.player === seat) : state.units,
+    reserves: hideDeployment ? { ...state.reserves, [opponent]: getEmptyArmy() } : state.reserves,
+    record: state.record.filter(e =>
+      !opponentSupport.test(e.notation) &&
+      !(hideDeployment && (opponentPlacement.test(e.notation) || opponentArmy.test(e.notation)))
+    ),
+    sandbox: false
+  };
+};
+
+const broadcast = (room: Room) => {
+  (['player', 'computer'] as Player[]).forEach(seat => {
+    const s = room.seats[seat];
+    if (!s) return;
+    const opponentSeat = room.seats[getOpponent(seat)];
+    send(s.socket, {
+      type: 'state',
+      state: redactState(room.state, seat),
+      ready: room.ready,
+      opponentConnected: !!opponentSeat?.socket
+    });
+  });
+};
+
+const attach = (room: Room, seat: Player, socket: WebSocket) => {
+  const previous = room.seats[seat]?.socket;
+  if (previous && previous !== socket) {
+    socketSeats.delete(previous);
+    previous.close();
+  }
+  room.seats[seat]!.socket = socket;
+  socketSeats.set(socket, { room, seat });
+  send(socket, { type: 'joined', roomId: room.id, token: room.seats[seat]!.token, seat });
+  broadcast(room);
+};
+
+const isInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+const isPlayer = (v: unknown): v is Player => v === 'player' || v === 'computer';
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isIdList = (v: unknown): v is string[] => Array.isArray(v) && v.every(id => typeof id === 'string');
+
+// Shape check for untrusted actions before they reach the engine
+const isWellFormedAction = (a: unknown): a is GameAction => {
+  if (!isObject(a)) return false;
+  switch (a.type) {
+    case 'set_army': {
+      const army = a.army;
+      return isPlayer(a.player) && isObject(army) && Object.values(UnitType).every(t => isInt(army[t]));
+    }
+    case 'place_unit':
+      return isPlayer(a.player) && Object.values(UnitType).includes(a.unitType as UnitType) && isInt(a.x) && isInt(a.y);
+    case 'toggle_support':
+      return isPlayer(a.player) && (a.lineType === 'row' || a.lineType === 'col') && isInt(a.index);
+    case 'move':
+      return typeof a.unitId === 'string' && isInt(a.x) && isInt(a.y);
+    case 'rotate':
+      return typeof a.unitId === 'string' && isInt(a.direction) && [0, 1, 2, 3].includes(a.direction);
+    case 'attack':
+      return typeof a.targetId === 'string' && isIdList(a.attackerIds) && (a.chargeIds === undefined || isIdList(a.chargeIds));
+    case 'resign':
+      return isPlayer(a.player);
+    case 'finish_army':
+    case 'finish_placement':
+    case 'finish_setup':
+    case 'end_turn':
+      return true;
+    default:
+      return false;
+  }
+};
+
+const isWellFormedMessage = (m: unknown): m is ClientMessage => {
+  if (!isObject(m)) return false;
+  switch (m.type) {
+    case 'create_room':
+      return (m.armyBudget === undefined || (isInt(m.armyBudget) && ARMY_BUDGETS.includes(m.armyBudget))) &&
+        (m.gridSize === undefined || (isInt(m.gridSize) && GRID_SIZES.includes(m.gridSize))) &&
+        (m.ruleSet === undefined || (typeof m.ruleSet === 'string' && Object.keys(RULE_SETS).includes(m.ruleSet)));
+    case 'undo':
+    case 'redo':
+      return true;
+    case 'join_room':
+      return typeof m.roomId === 'string';
+    case 'rejoin':
+      return typeof m.roomId === 'string' && typeof m.token === 'string';
+    case 'action':
+      return isWellFormedAction(m.action);
+    default:
+      return false;
+  }
+};
+
+// Which actions a seat may send; shared setup transitions only mark the seat as ready.
+const getSeatError = (state: GameState, seat: Player, action: GameAction): string | null => {
+  switch (action.type) {
+    case 'set_army':
+    case 'place_unit':
+    case 'toggle_support':
+      return action.player === seat ? null : "You can only set up your own side.";
+    case 'resign':
+      return action.player === seat ? null : "You can only resign for yourself.";
+    case 'finish_army':
+    case 'finish_placement':
+    case 'finish_setup':
+      return null;
+    default:
+      return state.turn === seat ? null : "It is not your turn.";
+  }
+};
+
+const handleAction = (room: Room, seat: Player, action: GameAction): string | null => {
+  const seatError = getSeatError(room.state, seat, action);
+  if (seatError) return seatError;
+
+  if (action.type === 'finish_army' || action.type === 'finish_placement' || action.type === 'finish_setup') {
+    const phase = action.type === 'finish_army' ? 'setup_army' : action.type === 'finish_placement' ? 'setup_placement' : 'setup_support';
+    if (room.state.turn !== phase) return "Not in that phase.";
+    if (phase === 'setup_army' && getArmySize(room.state.reserves[seat]) === 0) return "Buy an army first.";
+    if (phase === 'setup_placement' && !room.state.units.some(u => u.player === seat)) return "Place at least one unit first.";
+    room.ready[seat] = true;
+    if (room.ready.player && room.ready.computer) {
+      const error = getActionError(room.state, action);
+      if (error) return error;
+      room.state = applyAction(room.state, action);
+      room.ready = { player: false, computer: false };
+    }
+    return null;
+  }
+
+  const error = getActionError(room.state, action);
+  if (error) return error;
+  room.state = applyAction(room.state, action);
+  return null;
+};
+
+const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+  if (message.type === 'create_room') {
+    const room: Room = {
+      id: createRoomId(),
+      state: {
+        ...createInitialState('medium', 'online', {
+          armyBudget: message.armyBudget,
+          gridSize: message.gridSize,
+          rules: message.ruleSet && RULE_SETS[message.ruleSet]
+        }),
+        logs: ['Online game created. Waiting for an opponent...', 'Buy your army, then deploy it in the highlighted zone.']
+      },
+      seats: { player: { token: randomUUID(), socket: null } },
+      ready: { player: false, computer: false },
+      lastActivity: Date.now()
+    };
+    rooms.set(room.id, room);
+    attach(room, 'player', socket);
+    return;
+  }
+
+  if (message.type === 'join_room') {
+    const room = rooms.get(message.roomId.toUpperCase());
+    if (!room) return send(socket, { type: 'error', message: `Room ${message.roomId} not found.` });
+    if (room.seats.computer) return send(socket, { type: 'error', message: "Room is full." });
+    room.seats.computer = { token: randomUUID(), socket: null };
+    room.state = { ...room.state, logs: [...room.state.logs, "Red joined the game."] };
+    room.lastActivity = Date.now();
+    attach(room, 'computer', socket);
+    return;
+  }
+
+  if (message.type === 'rejoin') {
+    const room = rooms.get(message.roomId.toUpperCase());
+    const seat = (['player', 'computer'] as Player[]).find(p => room?.seats[p]?.token === message.token);
+    if (!room || !seat) return send(socket, { type: 'error', message: "Could not resume: the room no longer exists." });
+    room.lastActivity = Date.now();
+    attach(room, seat, socket);
+    return;
+  }
+
+  const joined = socketSeats.get(socket);
+  if (!joined) return send(socket, { type: 'error', message: "Join a room first." });
+  const { room, seat } = joined;
+  room.lastActivity = Date.now();
+
+  if (message.type === 'undo' || message.type === 'redo') {
+    if (room.state.turn !== seat) return send(socket, { type: 'error', message: "It is not your turn." });
+    const allowed = message.type === 'undo' ? canUndo(room.state) : canRedo(room.state);
+    if (!allowed) return send(socket, { type: 'error', message: `Nothing to ${message.type}.` });
+    room.state = message.type === 'undo' ? undo(room.state) : redo(room.state);
+    broadcast(room);
+    return;
+  }
+
+  if (message.type === 'action') {
+    const error = handleAction(room, seat, message.action);
+    if (error) send(socket, { type: 'error', message: error });
+    broadcast(room);
+  }
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  socket.on('message', (data) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return send(socket, { type: 'error', message: "Malformed message." });
+    }
+    if (!isWellFormedMessage(message)) return send(socket, { type: 'error', message: "Invalid message." });
+    try {
+      handleMessage(socket, message);
+    } catch (error) {
+      console.error("Relay error:", error);
+      send(socket, { type: 'error', message: "Server could not process the message." });
+    }
+  });
+
+  socket.on('close', () => {
+    const joined = socketSeats.get(socket);
+    socketSeats.delete(socket);
+    if (!joined) return;
+    const seat = joined.room.seats[joined.seat];
+    if (seat?.socket === socket) seat.socket = null;
+    broadcast(joined.room); // Tell the opponent the seat is disconnected
+  });
+});
+
+// Forget rooms nobody touched for an hour
+setInterval(() => {
+  const now = Date.now();
+  rooms.forEach((room, id) => {
+    if (now - room.lastActivity > ROOM_IDLE_MS) rooms.delete(id);
+  });
+}, 5 * 60 * 1000).unref();
+
+console.log(`Skrimish relay listening on ws://localhost:${PORT}`);
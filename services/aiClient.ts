@@ -0,0 +1,54 @@
+import { AIAction, AIWorkerMessage, AIWorkerRequest, GameState, LLMConfig } from '../types';
+
+// Main-thread side of services/aiWorker.ts. One request runs at a time: planning
+// again or cancelling terminates the worker, so a stale plan never comes back.
+
+export interface AIPlanHandlers {
+  onProgress: (progress: number, detail: string) => void;
+  onPlan: (actions: AIAction[], note: string | null) => void;
+  onError: (message: string) => void;
+}
+
+export interface AIPlanner {
+  // llm: where to send prompts when the difficulty is 'llm'
+  plan: (state: GameState, timeBudgetMs: number, handlers: AIPlanHandlers, llm?: LLMConfig) => void;
+  cancel: () => void;
+}
+
+export const createAIPlanner = (): AIPlanner => {
+  let worker: Worker | null = null;
+  let requestId = 0;
+
+  const cancel = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  return {
+    plan: (state, timeBudgetMs, handlers, llm) => {
+      cancel();
+      const id = ++requestId;
+      worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+
+      worker.onmessage = (event: MessageEvent<AIWorkerMessage>) => {
+        const message = event.data;
+        if (message.requestId !== id) return;
+        if (message.type === 'progress') {
+          handlers.onProgress(message.progress, message.detail);
+          return;
+        }
+        cancel();
+        if (message.type === 'plan') handlers.onPlan(message.actions, message.note);
+        else handlers.onError(message.message);
+      };
+      worker.onerror = (event) => {
+        cancel();
+        handlers.onError(event.message || "AI worker failed.");
+      };
+
+      const request: AIWorkerRequest = { type: 'plan', requestId: id, state, timeBudgetMs, llm };
+      worker.postMessage(request);
+    },
+    cancel
+  };
+};
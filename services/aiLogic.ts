@@ -1,34 +1,80 @@
-import { GameState, AIAction, Unit, UnitType, Direction, SupportLine } from '../types';
+import {
+  GameState, GameAction, AIAction, AIProgressHandler, AIPersonality, AIWeights, Unit, UnitType, Direction, SupportLine, SupportStyle, Difficulty, RuleSet, Coordinate,
+  CombatOdds, CombatWinner
+} from '../types';
 import { 
-  GRID_SIZE, isValidMove, canAttack, getCombatOutcome, calculateBaseStrength, getUnitAt, getVectorForRotation 
+  MAX_ARMY_SIZE, UNIT_COSTS, isValidSupportPlacement, isValidMove, canAttack, canCharge, canRotate, getRotationForMove, calculateBaseStrength, getUnitAt, getVectorForRotation, getFlankBonus 
 } from './gameLogic';
+import { getCombatOdds } from './knowledge';
+import { applyAction, getDeploymentZone } from './engine';
 
-// Weights for Evaluation
-const SCORES = {
-  KILL_UNIT_MULTIPLIER: 100, // Base score * value of unit killed
-  UNIT_VALUES: {
-    [UnitType.CAVALRY]: 5,
-    [UnitType.ARCHER]: 4,
-    [UnitType.INFANTRY]: 2
-  },
-  SURVIVAL: 50, // Per unit alive
-  SUPPORT_BONUS: 10, // Standing on support line
-  FLANKING_POS: 5, // Standing in potential flank pos
-  DANGER_PENALTY: -20, // Standing in range of enemy
-};
-
-// Generate Computer Support Lines (Middle Tactics)
-export const getComputerSupportPlacement = (): SupportLine[] => {
-  // Strategy: Occupy the center (indices 3, 4, 5) to control the board
+// Evaluation weights come from the game's personality (services/personalities.ts)
+
+// Buy the computer's army (rule 7). Units are taken from a wish list in order while
+// points and tokens last:
+// - random: any affordable unit
+// - easy: one-point units only, cavalry is never bought
+// - medium: balanced infantry / cavalry / archer rotation
+// - hard, expert and cheating: spend the whole budget on six tokens, as much cavalry as that allows
+export const getComputerArmy = (difficulty: Difficulty, budget: number): Record<UnitType, number> => {
+  const army = { [UnitType.INFANTRY]: 0, [UnitType.ARCHER]: 0, [UnitType.CAVALRY]: 0 };
+  let points = budget;
+  let tokens = MAX_ARMY_SIZE;
+  const buy = (type: UnitType) => {
+    if (tokens === 0 || UNIT_COSTS[type] > points) return;
+    army[type]++;
+    points -= UNIT_COSTS[type];
+    tokens--;
+  };
+
+  if (difficulty === 'random') {
+    const types = Object.values(UnitType);
+    for (let tries = 0; tries < 20; tries++) buy(types[Math.floor(Math.random() * types.length)]);
+  } else if (difficulty === 'easy') {
+    const wishList = [UnitType.INFANTRY, UnitType.ARCHER];
+    for (let i = 0; tokens > 0 && points > 0; i++) buy(wishList[i % wishList.length]);
+  } else if (difficulty === 'medium') {
+    const wishList = [UnitType.INFANTRY, UnitType.CAVALRY, UnitType.ARCHER];
+    for (let i = 0; i < MAX_ARMY_SIZE * wishList.length; i++) buy(wishList[i % wishList.length]);
+  } else {
+    // Every token costs at least 1; the points left over after that become cavalry upgrades
+    const cavalry = Math.max(0, Math.min(MAX_ARMY_SIZE, budget - MAX_ARMY_SIZE));
+    for (let i = 0; i < cavalry; i++) buy(UnitType.CAVALRY);
+    const wishList = [UnitType.INFANTRY, UnitType.ARCHER];
+    for (let i = 0; tokens > 0 && points > 0; i++) buy(wishList[i % wishList.length]);
+  }
+
+  // A tiny budget may leave nothing bought; an army needs at least one unit
+  if (tokens === MAX_ARMY_SIZE) army[UnitType.INFANTRY] = 1;
+  return army;
+};
+
+const shuffle = <T>(items: T[]): T[] => items.sort(() => Math.random() - 0.5);
+
+// Fixed support templates in the personality's style, picked at random (easy). The computer
+// deploys on rows 1-2, so higher rows lie toward the player.
+const getTemplateSupportPlacement = (gridSize: number, rules: RuleSet, style: SupportStyle): SupportLine[] => {
+  const c = Math.ceil(gridSize / 2);
+  // Parallel lines one apart unless the rules forbid adjacent ones
+  const d = rules.adjacentSupports ? 1 : 2;
   // Randomize slightly between row/col mix
-  const options = [
-    [{type: 'col', index: 3}, {type: 'col', index: 4}, {type: 'col', index: 5}],
-    [{type: 'row', index: 3}, {type: 'row', index: 4}, {type: 'row', index: 5}],
-    [{type: 'col', index: 4}, {type: 'row', index: 3}, {type: 'row', index: 5}],
-    [{type: 'row', index: 4}, {type: 'col', index: 3}, {type: 'col', index: 5}],
+  const options = style === 'forward' ? [
+    // Across the middle and one step further, where the fighting will be
+    [{type: 'row', index: c}, {type: 'row', index: c + d}, {type: 'col', index: c}],
+    [{type: 'row', index: c + d}, {type: 'col', index: c - d}, {type: 'col', index: c + d}],
+  ] : style === 'home' ? [
+    // Over the deployment rows, to defend
+    [{type: 'row', index: 1}, {type: 'row', index: 1 + d}, {type: 'col', index: c}],
+    [{type: 'row', index: 2}, {type: 'col', index: c - d}, {type: 'col', index: c + d}],
+  ] : [
+    // Occupy the center (indices 3, 4, 5 on 7x7) to control the board
+    [{type: 'col', index: c}, {type: 'col', index: c - d}, {type: 'col', index: c + d}],
+    [{type: 'row', index: c}, {type: 'row', index: c - d}, {type: 'row', index: c + d}],
+    [{type: 'col', index: c}, {type: 'row', index: c - d}, {type: 'row', index: c + d}],
+    [{type: 'row', index: c}, {type: 'col', index: c - d}, {type: 'col', index: c + d}],
   ];
   
-  const selected = options[Math.floor(Math.random() * options.length)];
+  const selected = options[Math.floor(Math.random() * options.length)].slice(0, rules.maxSupports);
   
   return selected.map(s => ({
       player: 'computer',
@@ -37,34 +83,183 @@ export const getComputerSupportPlacement = (): SupportLine[] => {
   }));
 };
 
+// Takes the best-scoring lines one by one while the rules allow another (count and adjacency)
+const pickSupportLines = (gridSize: number, rules: RuleSet, score: (line: SupportLine) => number): SupportLine[] => {
+  const lines: SupportLine[] = [];
+  (['row', 'col'] as const).forEach(type => {
+    for (let index = 1; index <= gridSize; index++) lines.push({ player: 'computer', type, index });
+  });
+  // A little noise keeps equal choices from being predictable
+  const scored = lines.map(line => ({ line, score: score(line) + Math.random() * 0.1 })).sort((a, b) => b.score - a.score);
+
+  const selected: SupportLine[] = [];
+  scored.forEach(({ line }) => {
+    if (isValidSupportPlacement(selected, line, rules)) selected.push(line);
+  });
+  return selected;
+};
+
+// Support lines for the deployed computer army (rule 5):
+// - random: any lines the rules allow
+// - easy: a fixed template in the personality's style
+// - otherwise: columns along the advance lanes of the formation, weighted by what walks them,
+//   and rows where the personality expects to fight (its own rows, the middle, or beyond)
+export const getComputerSupportPlacement = (gameState: GameState): SupportLine[] => {
+  const { gridSize, rules, difficulty, personality } = gameState;
+  if (difficulty === 'random') return pickSupportLines(gridSize, rules, () => Math.random());
+  if (difficulty === 'easy') return getTemplateSupportPlacement(gridSize, rules, personality.supportStyle);
+
+  const myUnits = gameState.units.filter(u => u.player === 'computer');
+  const value = (units: Unit[]) => units.reduce((sum, u) => sum + personality.weights.unitValues[u.type], 0);
+  const armyValue = value(myUnits);
+  const c = Math.ceil(gridSize / 2);
+  // Share of the army's value a row is worth, by distance from where the fighting is expected
+  const rowShare = (y: number): number => {
+    if (personality.supportStyle === 'home') return value(myUnits.filter(u => u.y === y)) / Math.max(armyValue, 1);
+    const battleRow = personality.supportStyle === 'forward' ? c + 1 : c;
+    return [0.6, 0.35, 0.15][Math.abs(y - battleRow)] ?? 0;
+  };
+
+  return pickSupportLines(gridSize, rules, line => line.type === 'col'
+    ? value(myUnits.filter(u => u.x === line.index))
+    : rowShare(line.index) * armyValue);
+};
+
+// How much a unit type wants a square of the deployment zone: infantry in front, archers
+// behind it, cavalry on the wings. The personality's front-line types are pulled forward.
+const getDeploymentScore = (type: UnitType, front: boolean, wing: boolean, personality: AIPersonality): number => {
+  let score = type === UnitType.INFANTRY ? (front ? 4 : 0) + (wing ? 0 : 1)
+    : type === UnitType.ARCHER ? (front ? 0 : 4) + (wing ? 0 : 1)
+    : (wing ? 3 : 0) + (front ? 1 : 0);
+  const rank = personality.frontLine.indexOf(type);
+  if (rank !== -1 && front) score += Math.max(1, 4 - rank);
+  return score;
+};
+
+// Deploy the computer's reserves (rule 4). Random and easy scatter the units over the zone;
+// the other difficulties build a formation, best fits first.
+export const getComputerDeployment = (gameState: GameState): { unitType: UnitType, x: number, y: number }[] => {
+  const { gridSize, personality, difficulty } = gameState;
+  const zone = getDeploymentZone('computer', gridSize);
+  const types: UnitType[] = [];
+  (Object.entries(gameState.reserves.computer) as [UnitType, number][]).forEach(([type, count]) => {
+    for (let i = 0; i < count; i++) types.push(type);
+  });
+
+  if (difficulty === 'random' || difficulty === 'easy') {
+    const squares = shuffle(zone);
+    return types.slice(0, squares.length).map((unitType, i) => ({ unitType, ...squares[i] }));
+  }
+
+  const frontRow = Math.max(...zone.map(s => s.y));
+  const columns = zone.map(s => s.x);
+  const centerCol = (Math.min(...columns) + Math.max(...columns)) / 2;
+  const free = [...zone];
+  const placements: { unitType: UnitType, x: number, y: number }[] = [];
+  const remaining = shuffle([...types]);
+  while (remaining.length > 0 && free.length > 0) {
+    let best = { unit: 0, square: 0, score: -Infinity };
+    remaining.forEach((type, u) => free.forEach((sq, q) => {
+      const score = getDeploymentScore(type, sq.y === frontRow, sq.x !== centerCol, personality) + Math.random() * 0.1;
+      if (score > best.score) best = { unit: u, square: q, score };
+    }));
+    placements.push({ unitType: remaining[best.unit], ...free[best.square] });
+    remaining.splice(best.unit, 1);
+    free.splice(best.square, 1);
+  }
+  return placements;
+};
+
+// Computer deployment once armies are bought: its whole army, then support lines that fit
+// the formation, both chosen by its difficulty and personality
+export const getInitialComputerState = (gameState: GameState): GameState => {
+  const deployed = getComputerDeployment(gameState)
+    .map((p): GameAction => ({ type: 'place_unit', player: 'computer', ...p }))
+    .reduce(applyAction, gameState);
+  return getComputerSupportPlacement(deployed)
+    .map((s): GameAction => ({ type: 'toggle_support', player: 'computer', lineType: s.type, index: s.index }))
+    .reduce(applyAction, deployed);
+};
+
+// What a unit is worth on the board in evaluateState
+export const getUnitMaterial = (unit: Unit, weights: AIWeights): number => weights.survival + weights.unitValues[unit.type] * 10;
+
+// The computer's chances in an attack, either side attacking. It weighs the player's hidden
+// lines over its belief; only the cheating difficulty reads them.
+export const getComputerCombatOdds = (attackers: Unit[], defender: Unit, gameState: GameState, chargeIds: string[] = []): CombatOdds =>
+  getCombatOdds(gameState, 'computer', attackers, defender, chargeIds, gameState.difficulty === 'cheating');
+
+// Whether an enemy melee unit could step next to the unit's side or rear next turn and
+// attack with the flank bonus. Cavalry reaches two squares, everything else one.
+const isFlankExposed = (unit: Unit, enemies: Unit[], gameState: GameState): boolean =>
+  [Direction.NORTH, Direction.EAST, Direction.SOUTH, Direction.WEST].some(dir => {
+    const { x: dx, y: dy } = getVectorForRotation(dir);
+    const x = unit.x + dx;
+    const y = unit.y + dy;
+    if (x < 1 || y < 1 || x > gameState.gridSize || y > gameState.gridSize) return false;
+    const occupant = getUnitAt(gameState.units, x, y);
+    if (occupant && occupant.player === unit.player) return false;
+    return enemies.some(e => {
+      if (e.type === UnitType.ARCHER) return false;
+      const reach = e.type === UnitType.CAVALRY ? 2 : 1;
+      if (Math.abs(e.x - x) + Math.abs(e.y - y) > reach) return false;
+      return getFlankBonus({ ...e, x, y }, unit, gameState.rules) > 0;
+    });
+  });
+
 // --- Evaluation Function ---
-const evaluateState = (gameState: GameState): number => {
+// Per square a unit is closer to its nearest enemy than twice the board size
+const ADVANCE_BONUS = 3;
+export const evaluateState = (gameState: GameState): number => {
   let score = 0;
+  const weights = gameState.personality.weights;
   
   const myUnits = gameState.units.filter(u => u.player === 'computer');
   const enemyUnits = gameState.units.filter(u => u.player === 'player');
 
   // Material Score
-  myUnits.forEach(u => score += SCORES.SURVIVAL + (SCORES.UNIT_VALUES[u.type] * 10));
-  enemyUnits.forEach(u => score -= (SCORES.SURVIVAL + (SCORES.UNIT_VALUES[u.type] * 10)));
+  myUnits.forEach(u => score += getUnitMaterial(u, weights));
+  enemyUnits.forEach(u => score -= getUnitMaterial(u, weights));
 
   // Positional Score
   myUnits.forEach(u => {
      const strength = calculateBaseStrength(u, gameState.computerSupport);
-     score += (strength - 1) * SCORES.SUPPORT_BONUS;
+     score += (strength - 1) * weights.supportBonus;
 
      // Penalty for being vulnerable (especially archers in melee range)
      if (u.type === UnitType.ARCHER) {
         const nearEnemy = enemyUnits.some(e => Math.abs(e.x - u.x) + Math.abs(e.y - u.y) === 1);
-        if (nearEnemy) score += SCORES.DANGER_PENALTY * 2;
+        if (nearEnemy) score += weights.dangerPenalty * 2;
+     }
+
+     // Penalty for leaving a side or the rear open to an attack next turn
+     if (isFlankExposed(u, enemyUnits, gameState)) score += weights.flankExposed * weights.unitValues[u.type];
+
+     // Progress toward the nearest enemy, so that guarding the flanks doesn't turn into waiting
+     if (enemyUnits.length > 0) {
+        const distance = Math.min(...enemyUnits.map(e => Math.abs(e.x - u.x) + Math.abs(e.y - u.y)));
+        score += ADVANCE_BONUS * Math.max(0, 2 * gameState.gridSize - distance);
      }
   });
 
   return score;
 };
 
+// Resign (rule 16) once the evaluation is this many average units behind. Measured in the
+// personality's own material values, so custom weights scale it too. The random difficulty
+// (and a profile whose units are worth nothing) plays on regardless.
+const RESIGN_UNITS_DOWN = 3.5;
+
+export const shouldComputerResign = (gameState: GameState): boolean => {
+  if (gameState.difficulty === 'random') return false;
+  const { weights } = gameState.personality;
+  const types = Object.values(UnitType);
+  const averageMaterial = weights.survival + types.reduce((sum, t) => sum + weights.unitValues[t], 0) * 10 / types.length;
+  return averageMaterial > 0 && evaluateState(gameState) <= -RESIGN_UNITS_DOWN * averageMaterial;
+};
+
 // --- SIMULATION HELPERS ---
-const simulateMove = (unit: Unit, targetX: number, targetY: number): Unit => {
+export const simulateMove = (unit: Unit, targetX: number, targetY: number): Unit => {
     // Determine new rotation based on move
     let newRot = unit.rotation;
     if (targetY < unit.y) newRot = Direction.NORTH;
@@ -79,11 +274,169 @@ const simulateMove = (unit: Unit, targetX: number, targetY: number): Unit => {
         x: targetX, 
         y: targetY, 
         rotation: newRot, 
-        movesLeft: Math.max(0, unit.movesLeft - dist) 
+        movesLeft: Math.max(0, unit.movesLeft - dist),
+        actions: [...unit.actions, ...Array<'move'>(dist).fill('move')]
+    };
+};
+
+export const simulateRotate = (unit: Unit, direction: Direction): Unit =>
+    ({ ...unit, rotation: direction, actions: [...unit.actions, 'rotate'] });
+
+// Resolves a planned (possibly joint) attack on the simulated board. The board follows the
+// likeliest result; the score is the expected kill plus what makes the material up to the
+// expected result.
+export const simulateAttack = (units: Unit[], act: AIAction, gameState: GameState): { units: Unit[], score: number } => {
+    const attackerIds = act.attackerIds ?? [act.unitId];
+    const chargeIds = act.chargeIds ?? [];
+    const attackers = units.filter(u => attackerIds.includes(u.id));
+    const def = getUnitAt(units, act.target!.x, act.target!.y);
+    if (attackers.length === 0 || !def) return { units, score: 0 };
+
+    const odds = getComputerCombatOdds(attackers, def, { ...gameState, units }, chargeIds);
+    const weights = gameState.personality.weights;
+    const likeliest = (['attacker', 'tie', 'defender'] as CombatWinner[]).reduce((a, b) => odds[b] > odds[a] ? b : a);
+    const swing: CombatOdds = {
+        attacker: getUnitMaterial(def, weights),
+        defender: -attackers.reduce((sum, a) => sum + getUnitMaterial(a, weights), 0),
+        tie: 0
+    };
+    const score = odds.attacker * weights.killUnit * weights.unitValues[def.type]
+        + odds.attacker * swing.attacker + odds.defender * swing.defender - swing[likeliest];
+
+    let next = units.map(u => attackerIds.includes(u.id)
+        ? { ...u, attacksLeft: 0, movesLeft: chargeIds.includes(u.id) ? 0 : u.movesLeft, actions: [...u.actions, 'attack' as const] }
+        : u);
+    if (likeliest === 'attacker') next = next.filter(u => u.id !== def.id);
+    if (likeliest === 'defender') next = next.filter(u => !attackerIds.includes(u.id));
+    return { units: next, score };
+};
+
+export const simulateAction = (units: Unit[], act: AIAction, gameState: GameState): { units: Unit[], score: number } => {
+    if (act.actionType === 'move' && act.target) {
+        return { units: units.map(u => u.id === act.unitId ? simulateMove(u, act.target!.x, act.target!.y) : u), score: 0 };
+    }
+    if (act.actionType === 'rotate' && act.direction !== undefined) {
+        return { units: units.map(u => u.id === act.unitId ? simulateRotate(u, act.direction!) : u), score: 0 };
+    }
+    if (act.actionType === 'attack' && act.target) return simulateAttack(units, act, gameState);
+    return { units, score: 0 };
+};
+
+// Cavalry may charge (rule 13); both options are planned so the evaluation can weigh
+// the +1 against keeping the move
+export const getAttackOptions = (unit: Unit, target: Unit, gameState: GameState): AIAction[] => {
+    const attack: AIAction = { unitId: unit.id, actionType: 'attack', target: { x: target.x, y: target.y } };
+    return canCharge(unit, gameState.rules) ? [attack, { ...attack, chargeIds: [unit.id] }] : [attack];
+};
+
+export const getValidMoves = (unit: Unit, units: Unit[], gameState: GameState): Coordinate[] => {
+    const moves: Coordinate[] = [];
+    for (let y = 1; y <= gameState.gridSize; y++) {
+        for (let x = 1; x <= gameState.gridSize; x++) {
+            if (isValidMove(unit, x, y, units, gameState.gridSize, gameState.rules)) moves.push({ x, y });
+        }
+    }
+    return moves;
+};
+
+// Directions the unit could turn to now (rule 9 permitting)
+export const getOtherFacings = (unit: Unit): Direction[] =>
+    canRotate(unit) ? [Direction.NORTH, Direction.EAST, Direction.SOUTH, Direction.WEST].filter(d => d !== unit.rotation) : [];
+
+// --- JOINT ATTACKS ---
+const MAX_JOINT_ATTACKERS = 3;
+
+interface AttackPosition {
+    steps: AIAction[]; // Move and/or rotation that bring the unit into attack position
+    unit: Unit; // The unit once there
+}
+
+// Ways a unit can get to attack the target this turn: from where it stands or after one move,
+// turning to face the target when needed (rule 9 permits move+rotate+attack)
+const getAttackPositions = (unit: Unit, target: Unit, units: Unit[], gameState: GameState): AttackPosition[] => {
+    const positions: AttackPosition[] = [];
+    const tryFrom = (steps: AIAction[], placed: Unit) => {
+        const board = units.map(u => u.id === placed.id ? placed : u);
+        if (canAttack(placed, target, board, gameState.rules)) {
+            positions.push({ steps, unit: placed });
+            return;
+        }
+        const facing = getRotationForMove(placed, target.x, target.y);
+        if (facing === placed.rotation || !canRotate(placed)) return;
+        const turned = simulateRotate(placed, facing);
+        if (canAttack(turned, target, board, gameState.rules)) {
+            positions.push({ steps: [...steps, { unitId: unit.id, actionType: 'rotate', direction: facing }], unit: turned });
+        }
     };
+
+    tryFrom([], unit);
+    getValidMoves(unit, units, gameState).forEach(move => {
+        tryFrom([{ unitId: unit.id, actionType: 'move', target: move }], simulateMove(unit, move.x, move.y));
+    });
+    return positions;
 };
 
-export const getComputerMovesLocal = (gameState: GameState): AIAction[] => {
+// Finds a gang-up the computer likely wins, and more surely than any single unit would: several
+// units move into (preferably flanking) positions and attack one target together. Returns the actions or null.
+export const planJointAttack = (units: Unit[], exclude: string[], gameState: GameState): AIAction[] | null => {
+    const myUnits = units.filter(u => u.player === 'computer' && !exclude.includes(u.id) && u.attacksLeft > 0);
+    const best = { steps: null as AIAction[] | null, score: -Infinity };
+
+    for (const target of units.filter(u => u.player === 'player')) {
+        const options = myUnits
+            .map(unit => ({ unit, positions: getAttackPositions(unit, target, units, gameState) }))
+            .filter(o => o.positions.length > 0);
+        if (options.length < 2) continue;
+
+        // A lone attacker that is sure to win is left to the per-unit planning
+        const aloneOdds = Math.max(...options.flatMap(o => o.positions.map(p => {
+            const board = units.map(u => u.id === p.unit.id ? p.unit : u);
+            const chargeIds = canCharge(p.unit, gameState.rules) ? [p.unit.id] : [];
+            return getComputerCombatOdds([p.unit], target, { ...gameState, units: board }, chargeIds).attacker;
+        })));
+        if (aloneOdds > 0.95) continue;
+
+        // Try every group of 2..MAX_JOINT_ATTACKERS units, each from each of its positions
+        const search = (index: number, chosen: AttackPosition[], board: Unit[]) => {
+            if (chosen.length >= 2) {
+                const attackers = chosen.map(p => p.unit);
+                const chargeIds = attackers.filter(a => canCharge(a, gameState.rules)).map(a => a.id);
+                const odds = getComputerCombatOdds(attackers, target, { ...gameState, units: board }, chargeIds);
+                if (odds.attacker > Math.max(0.5, aloneOdds)) {
+                    // Surer wins are better, then fewer units and moves
+                    const steps = chosen.reduce((n, p) => n + p.steps.length, 0);
+                    const { killUnit, unitValues } = gameState.personality.weights;
+                    const score = killUnit * unitValues[target.type] * odds.attacker
+                        - 20 * attackers.length - 2 * steps;
+                    if (score > best.score) {
+                        const attack: AIAction = {
+                            unitId: attackers[0].id, actionType: 'attack', target: { x: target.x, y: target.y },
+                            attackerIds: attackers.map(a => a.id), chargeIds
+                        };
+                        best.steps = [...chosen.flatMap(p => p.steps), attack];
+                        best.score = score;
+                    }
+                }
+            }
+            if (chosen.length === MAX_JOINT_ATTACKERS) return;
+            for (let i = index; i < options.length; i++) {
+                for (const position of options[i].positions) {
+                    // Positions were found on the starting board; re-check the move against the
+                    // squares taken by the units already chosen
+                    const move = position.steps.find(s => s.actionType === 'move');
+                    if (move && !isValidMove(options[i].unit, move.target!.x, move.target!.y, board, gameState.gridSize, gameState.rules)) continue;
+                    const next = board.map(u => u.id === position.unit.id ? position.unit : u);
+                    if (!canAttack(position.unit, target, next, gameState.rules)) continue;
+                    search(i + 1, [...chosen, position], next);
+                }
+            }
+        };
+        search(0, [], units);
+    }
+    return best.steps;
+};
+
+export const getComputerMovesLocal = (gameState: GameState, onProgress?: AIProgressHandler): AIAction[] => {
   const difficulty = gameState.difficulty;
   const actions: AIAction[] = [];
   
@@ -96,17 +449,34 @@ export const getComputerMovesLocal = (gameState: GameState): AIAction[] => {
   // 1. [Attack] (if possible)
   // 2. [Move] -> [Attack] (if possible)
   // 3. [Move] (positioning)
+  // 4. Any of these with a rotation to face a target or cover the flanks (not on easy)
   // Evaluate the state resulting from each sequence.
   // Pick the best one.
   
   // Priorities: Units that can attack/kill should go first to clear board?
   // Or just iterate standard list.
   
-  const myUnits = simulatedUnits.filter(u => u.player === 'computer');
+  // Gang up on targets no single unit can beat (medium, hard and cheating); those units then sit out
+  // the per-unit planning below
+  const committed: string[] = [];
+  if (difficulty === 'medium' || difficulty === 'hard' || difficulty === 'cheating') {
+     let joint = planJointAttack(simulatedUnits, committed, gameState);
+     while (joint) {
+         for (const act of joint) {
+             actions.push(act);
+             simulatedUnits = simulateAction(simulatedUnits, act, gameState).units;
+         }
+         committed.push(...joint[joint.length - 1].attackerIds!);
+         joint = planJointAttack(simulatedUnits, committed, gameState);
+     }
+  }
+
+  const myUnits = simulatedUnits.filter(u => u.player === 'computer' && !committed.includes(u.id));
   // Sort by ID to keep order deterministic
   myUnits.sort((a, b) => a.id.localeCompare(b.id));
 
-  for (const unit of myUnits) {
+  for (const [index, unit] of myUnits.entries()) {
+     onProgress?.(index / myUnits.length, `Planning unit ${index + 1} of ${myUnits.length}`);
      // If unit was removed in previous simulation steps (e.g. self-destruct? unlikely), skip
      if (!simulatedUnits.find(u => u.id === unit.id)) continue;
 
@@ -114,27 +484,47 @@ export const getComputerMovesLocal = (gameState: GameState): AIAction[] => {
      const currentUnit = simulatedUnits.find(u => u.id === unit.id)!;
      
      const possibleSequences: AIAction[][] = [];
+     const plansFacing = difficulty !== 'easy';
+     const turnTo = (direction: Direction): AIAction => ({ unitId: currentUnit.id, actionType: 'rotate', direction });
      
      // OPTION A: Stay & Attack (if possible)
-     const directTargets = simulatedUnits.filter(e => e.player === 'player' && canAttack(currentUnit, e, simulatedUnits));
+     const directTargets = simulatedUnits.filter(e => e.player === 'player' && canAttack(currentUnit, e, simulatedUnits, gameState.rules));
      directTargets.forEach(target => {
-         possibleSequences.push([
-             { unitId: currentUnit.id, actionType: 'attack', target: { x: target.x, y: target.y } }
-         ]);
+         getAttackOptions(currentUnit, target, gameState).forEach(attack => {
+             possibleSequences.push([attack]);
+             if (plansFacing && currentUnit.type !== UnitType.CAVALRY) {
+                 // Turn to cover the flanks after attacking
+                 const attacker = simulateAttack(simulatedUnits, attack, gameState).units.find(u => u.id === currentUnit.id);
+                 if (attacker) getOtherFacings(attacker).forEach(d => possibleSequences.push([attack, turnTo(d)]));
+             }
+             if (attack.chargeIds || currentUnit.type !== UnitType.CAVALRY) return;
+             // Attack without charging, then use the kept move to reposition
+             const after = simulateAttack(simulatedUnits, attack, gameState).units;
+             const attacker = after.find(u => u.id === currentUnit.id);
+             if (!attacker) return;
+             getValidMoves(attacker, after, gameState).forEach(move => {
+                 possibleSequences.push([attack, { unitId: currentUnit.id, actionType: 'move', target: move }]);
+             });
+         });
      });
 
-     // OPTION B: Move (and optionally Attack)
-     const validMoves: {x: number, y: number}[] = [];
-     
-     // Generate valid moves (1..7)
-     for (let y = 1; y <= GRID_SIZE; y++) {
-        for (let x = 1; x <= GRID_SIZE; x++) {
-           if (isValidMove(currentUnit, x, y, simulatedUnits)) {
-               validMoves.push({x, y});
-           }
-        }
+     // OPTION A2: Turn in place, then attack whatever is now in front. Turning alone is only
+     // listed after staying put, so it has to score strictly better than doing nothing.
+     const turnsOnly: AIAction[][] = [];
+     if (plansFacing) {
+         getOtherFacings(currentUnit).forEach(d => {
+             const turned = simulateRotate(currentUnit, d);
+             const unitsAfterTurn = simulatedUnits.map(u => u.id === turned.id ? turned : u);
+             turnsOnly.push([turnTo(d)]);
+             simulatedUnits
+                 .filter(e => e.player === 'player' && canAttack(turned, e, unitsAfterTurn, gameState.rules))
+                 .forEach(target => getAttackOptions(turned, target, gameState).forEach(attack => possibleSequences.push([turnTo(d), attack])));
+         });
      }
 
+     // OPTION B: Move (and optionally Attack)
+     const validMoves = getValidMoves(currentUnit, simulatedUnits, gameState);
+
      // Limit move search based on difficulty
      let moveSample = validMoves;
      if (difficulty === 'easy') moveSample = validMoves.filter(() => Math.random() < 0.2);
@@ -148,15 +538,17 @@ export const getComputerMovesLocal = (gameState: GameState): AIAction[] => {
          const unitsAfterMove = simulatedUnits.map(u => u.id === movedUnit.id ? movedUnit : u);
          
          // Check if can attack from new pos
-         const postMoveTargets = simulatedUnits.filter(e => e.player === 'player' && canAttack(movedUnit, e, unitsAfterMove));
+         const postMoveTargets = simulatedUnits.filter(e => e.player === 'player' && canAttack(movedUnit, e, unitsAfterMove, gameState.rules));
          
          if (postMoveTargets.length > 0) {
              // Sequence: Move -> Attack
              postMoveTargets.forEach(target => {
-                 possibleSequences.push([
-                     { unitId: currentUnit.id, actionType: 'move', target: { x: move.x, y: move.y } },
-                     { unitId: currentUnit.id, actionType: 'attack', target: { x: target.x, y: target.y } }
-                 ]);
+                 getAttackOptions(movedUnit, target, gameState).forEach(attack => {
+                     possibleSequences.push([
+                         { unitId: currentUnit.id, actionType: 'move', target: { x: move.x, y: move.y } },
+                         attack
+                     ]);
+                 });
              });
          }
          
@@ -164,10 +556,23 @@ export const getComputerMovesLocal = (gameState: GameState): AIAction[] => {
          possibleSequences.push([
              { unitId: currentUnit.id, actionType: 'move', target: { x: move.x, y: move.y } }
          ]);
+
+         // Sequence: Move -> Rotate (-> Attack), facing a threat or a target
+         if (!plansFacing) continue;
+         getOtherFacings(movedUnit).forEach(d => {
+             const turned = simulateRotate(movedUnit, d);
+             const unitsAfterTurn = simulatedUnits.map(u => u.id === turned.id ? turned : u);
+             const step: AIAction = { unitId: currentUnit.id, actionType: 'move', target: { x: move.x, y: move.y } };
+             possibleSequences.push([step, turnTo(d)]);
+             simulatedUnits
+                 .filter(e => e.player === 'player' && canAttack(turned, e, unitsAfterTurn, gameState.rules))
+                 .forEach(target => getAttackOptions(turned, target, gameState).forEach(attack => possibleSequences.push([step, turnTo(d), attack])));
+         });
      }
 
      // OPTION C: Stay (No-op)
      possibleSequences.push([]); 
+     possibleSequences.push(...turnsOnly);
 
      // --- EVALUATE SEQUENCES ---
      let bestSeq: AIAction[] = [];
@@ -180,21 +585,9 @@ export const getComputerMovesLocal = (gameState: GameState): AIAction[] => {
          
          // Apply sequence
          for (const act of seq) {
-             if (act.actionType === 'move' && act.target) {
-                 tempUnits = tempUnits.map(u => u.id === act.unitId ? simulateMove(u, act.target!.x, act.target!.y) : u);
-             } else if (act.actionType === 'attack' && act.target) {
-                 const atk = tempUnits.find(u => u.id === act.unitId);
-                 const def = getUnitAt(tempUnits, act.target!.x, act.target!.y);
-                 if (atk && def) {
-                     const res = getCombatOutcome([atk], def, tempGameState);
-                     if (res.winner === 'attacker') {
-                         tempUnits = tempUnits.filter(u => u.id !== def.id);
-                         sequenceScore += SCORES.KILL_UNIT_MULTIPLIER * SCORES.UNIT_VALUES[def.type];
-                     } else if (res.winner === 'defender') {
-                         tempUnits = tempUnits.filter(u => u.id !== atk.id);
-                     }
-                 }
-             }
+             const result = simulateAction(tempUnits, act, tempGameState);
+             tempUnits = result.units;
+             sequenceScore += result.score;
          }
          
          // Score resulting state
@@ -213,24 +606,24 @@ export const getComputerMovesLocal = (gameState: GameState): AIAction[] => {
          
          // Update global simulation for next units
          for (const act of bestSeq) {
-             if (act.actionType === 'move' && act.target) {
-                 simulatedUnits = simulatedUnits.map(u => u.id === act.unitId ? simulateMove(u, act.target!.x, act.target!.y) : u);
-             } else if (act.actionType === 'attack' && act.target) {
-                 const atk = simulatedUnits.find(u => u.id === act.unitId);
-                 const def = getUnitAt(simulatedUnits, act.target!.x, act.target!.y);
-                 if (atk && def) {
-                     const res = getCombatOutcome([atk], def, { ...gameState, units: simulatedUnits });
-                     if (res.winner === 'attacker') {
-                         simulatedUnits = simulatedUnits.filter(u => u.id !== def.id);
-                     } else if (res.winner === 'defender') {
-                         simulatedUnits = simulatedUnits.filter(u => u.id !== atk.id);
-                     }
-                 }
-             }
+             simulatedUnits = simulateAction(simulatedUnits, act, gameState).units;
          }
      }
   }
 
   actions.push({ unitId: 'global', actionType: 'end_turn' });
   return actions;
-};
\ No newline at end of file
+};
+
+// The engine action for a planned step on the board as it is now, null if there is nothing
+// to do. Like the board view, it drops joint attackers lost earlier in the turn.
+export const toGameAction = (gameState: GameState, action: AIAction): GameAction | null => {
+  if (action.actionType === 'move' && action.target) return { type: 'move', unitId: action.unitId, x: action.target.x, y: action.target.y };
+  if (action.actionType === 'rotate' && action.direction !== undefined) return { type: 'rotate', unitId: action.unitId, direction: action.direction };
+  if (action.actionType !== 'attack' || !action.target) return null;
+
+  const attackerIds = (action.attackerIds?.length ? action.attackerIds : [action.unitId]).filter(id => gameState.units.some(u => u.id === id));
+  const defender = getUnitAt(gameState.units, action.target.x, action.target.y);
+  if (attackerIds.length === 0 || !defender) return null;
+  return { type: 'attack', targetId: defender.id, attackerIds, chargeIds: (action.chargeIds ?? []).filter(id => attackerIds.includes(id)) };
+};
@@ -0,0 +1,35 @@
+import { AIAction, AIProgressHandler, AIWorkerMessage, AIWorkerRequest, GameState, LLMConfig } from '../types';
+import { getComputerMovesLocal } from './aiLogic';
+import { getComputerMovesSearch } from './searchAI';
+import { DEFAULT_LLM_CONFIG, getLLMComputerMoves } from './llmService';
+
+// Web Worker entry: plans the computer's turn off the main thread so the board stays
+// responsive. Started by services/aiClient.ts; cancelling terminates the worker.
+
+// Picks the planning strategy for the difficulty
+const planComputerTurn = async (
+  state: GameState,
+  timeBudgetMs: number,
+  llm: LLMConfig | undefined,
+  onProgress?: AIProgressHandler
+): Promise<{ actions: AIAction[], note: string | null }> => {
+  if (state.difficulty === 'llm') return getLLMComputerMoves(state, llm ?? DEFAULT_LLM_CONFIG, onProgress);
+  const actions = state.difficulty === 'expert'
+    ? getComputerMovesSearch(state, timeBudgetMs, onProgress)
+    : getComputerMovesLocal(state, onProgress);
+  return { actions, note: null };
+};
+
+const post = (message: AIWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<AIWorkerRequest>) => {
+  const { requestId, state, timeBudgetMs, llm } = event.data;
+  try {
+    const { actions, note } = await planComputerTurn(state, timeBudgetMs, llm, (progress, detail) =>
+      post({ type: 'progress', requestId, progress, detail })
+    );
+    post({ type: 'plan', requestId, actions, note });
+  } catch (error) {
+    post({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
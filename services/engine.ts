@@ -0,0 +1,523 @@
+import { GameState, GameAction, GameOptions, RecordEntry, Unit, UnitType, Direction, Player, SupportLine, Difficulty, GameMode, Coordinate } from '../types';
+import {
+  DEFAULT_GRID_SIZE, MAX_ARMY_SIZE, DEFAULT_ARMY_BUDGET, getArmySize, getArmyCost, generateId, getUnitAt, isValidMove, canRotate, canAttack, canTakeAction, canCharge,
+  isValidSupportPlacement, resolveCombat, getRotationForMove
+} from './gameLogic';
+import { formatAction, parseNotation } from './notation';
+import { createEmptyKnowledge, observeCombat } from './knowledge';
+import { RULE_SETS, DEFAULT_RULE_SET } from './rules';
+import { AI_PERSONALITIES, DEFAULT_PERSONALITY } from './personalities';
+
+// Pure game engine: every rule-enforcing state transition lives here so that
+// the UI, scripts and alternative front-ends all drive the same logic.
+
+export const getOpponent = (player: Player): Player => player === 'player' ? 'computer' : 'player';
+
+// Display name of a side: "You"/"Computer" against the AI, "Blue"/"Red" between two humans
+export const getSideName = (state: GameState, player: Player): string => {
+  if (state.mode !== 'vs_computer') return player === 'player' ? 'Blue' : 'Red';
+  return player === 'player' ? 'You' : 'Computer';
+};
+
+export const getSupportLines = (state: GameState, player: Player): SupportLine[] =>
+  player === 'player' ? state.playerSupport : state.computerSupport;
+
+export const createUnit = (type: UnitType, player: Player, x: number, y: number): Unit => ({
+  id: generateId(),
+  type,
+  player,
+  x,
+  y,
+  rotation: player === 'player' ? Direction.NORTH : Direction.SOUTH,
+  movesLeft: type === UnitType.CAVALRY ? 2 : 1,
+  attacksLeft: 1,
+  actions: [],
+  maxMoves: type === UnitType.CAVALRY ? 2 : 1,
+  hp: 1
+});
+
+export const getEmptyArmy = (): Record<UnitType, number> =>
+  ({ [UnitType.INFANTRY]: 0, [UnitType.ARCHER]: 0, [UnitType.CAVALRY]: 0 });
+
+// Reason an army cannot be bought with the given budget, null if it can
+export const getArmyError = (army: Record<UnitType, number>, budget: number): string | null => {
+  const counts = Object.values(UnitType).map(type => army[type]);
+  if (counts.some(n => !Number.isInteger(n) || n < 0)) return "Invalid unit count.";
+  const size = getArmySize(army);
+  if (size === 0) return "Buy at least one unit.";
+  if (size > MAX_ARMY_SIZE) return `At most ${MAX_ARMY_SIZE} units allowed.`;
+  const cost = getArmyCost(army);
+  if (cost > budget) return `Army costs ${cost} points, budget is ${budget}.`;
+  return null;
+};
+
+export const getGameOptions = (state: GameState): GameOptions =>
+  ({ armyBudget: state.armyBudget, gridSize: state.gridSize, rules: state.rules, personality: state.personality });
+
+export const createInitialState = (
+  difficulty: Difficulty = 'medium',
+  mode: GameMode = 'vs_computer',
+  options: Partial<GameOptions> = {}
+): GameState => ({
+  armyBudget: options.armyBudget ?? DEFAULT_ARMY_BUDGET,
+  gridSize: options.gridSize ?? DEFAULT_GRID_SIZE,
+  rules: options.rules ?? RULE_SETS[DEFAULT_RULE_SET],
+  personality: options.personality ?? AI_PERSONALITIES[DEFAULT_PERSONALITY],
+  difficulty,
+  mode,
+  units: [],
+  playerSupport: [],
+  computerSupport: [],
+  turn: 'setup_army',
+  winner: null,
+  endReason: null,
+  passiveTurns: 0,
+  selectedUnitId: null,
+  logs: [],
+  combatState: null,
+  pendingAttack: null,
+  sandbox: false,
+  knowledge: { player: createEmptyKnowledge(), computer: createEmptyKnowledge() },
+  reserves: { player: getEmptyArmy(), computer: getEmptyArmy() },
+  undoStack: [],
+  redoStack: [],
+  turnNumber: 0,
+  record: [],
+  startPosition: null
+});
+
+// Deployment zone (1-based): 2 rows at the player's own edge, the 3 centre columns
+// (x = 3..5 on 7x7; left of centre on even sizes).
+export const getDeploymentZone = (player: Player, gridSize: number): Coordinate[] => {
+  const rows = player === 'player' ? [gridSize - 1, gridSize] : [1, 2];
+  const firstCol = Math.floor((gridSize - 3) / 2) + 1;
+  const zone: Coordinate[] = [];
+  rows.forEach(y => {
+    for (let x = firstCol; x < firstCol + 3; x++) zone.push({ x, y });
+  });
+  return zone;
+};
+
+export const isInDeploymentZone = (player: Player, gridSize: number, x: number, y: number): boolean =>
+  getDeploymentZone(player, gridSize).some(c => c.x === x && c.y === y);
+
+// Returns a human readable reason if the action is illegal in this state, null otherwise.
+export const getActionError = (state: GameState, action: GameAction): string | null => {
+  if (state.turn === 'game_over') return "The game is over.";
+
+  switch (action.type) {
+    case 'set_army': {
+      if (state.turn !== 'setup_army') return "Armies can only be bought before deployment.";
+      return getArmyError(action.army, state.armyBudget);
+    }
+    case 'finish_army': {
+      if (state.turn !== 'setup_army') return "Not in army-building phase.";
+      if (getArmySize(state.reserves.player) === 0 || getArmySize(state.reserves.computer) === 0) return "Both sides must buy an army first.";
+      return null;
+    }
+    case 'place_unit': {
+      if (state.turn !== 'setup_placement') return "Units can only be placed during deployment.";
+      if (state.reserves[action.player][action.unitType] <= 0) return `No ${action.unitType}s left.`;
+      if (!isInDeploymentZone(action.player, state.gridSize, action.x, action.y)) return "Invalid placement zone (Center 2x3 at your edge).";
+      if (getUnitAt(state.units, action.x, action.y)) return "Tile occupied.";
+      return null;
+    }
+    case 'finish_placement': {
+      if (state.turn !== 'setup_placement') return "Not in deployment phase.";
+      if (!state.units.some(u => u.player === 'player')) return "Place at least one unit first.";
+      if (!state.units.some(u => u.player === 'computer')) return "Computer has not deployed any units.";
+      return null;
+    }
+    case 'toggle_support': {
+      if (state.turn !== 'setup_placement' && state.turn !== 'setup_support') return "Support lines can only be set before the game starts.";
+      if (action.index < 1 || action.index > state.gridSize) return "Support line is off the board.";
+      const supports = getSupportLines(state, action.player);
+      const exists = supports.some(s => s.type === action.lineType && s.index === action.index);
+      if (exists) return null; // Removing is always allowed
+      if (supports.length >= state.rules.maxSupports) return `Max ${state.rules.maxSupports} supports allowed. Deselect one first.`;
+      const newSupport: SupportLine = { player: action.player, type: action.lineType, index: action.index };
+      if (!isValidSupportPlacement(supports, newSupport, state.rules)) return "Invalid support placement (Adjacent parallel lines not allowed).";
+      return null;
+    }
+    case 'finish_setup': {
+      if (state.turn !== 'setup_support') return "Not in support phase.";
+      return null;
+    }
+    case 'move': {
+      if (state.turn !== 'player' && state.turn !== 'computer') return "Game has not started.";
+      const unit = state.units.find(u => u.id === action.unitId);
+      if (!unit) return "Unit not found.";
+      if (unit.player !== state.turn) return "Not your unit.";
+      if (unit.movesLeft > 0 && !canTakeAction(unit, 'move')) return "Cannot move (Rule 9: no further action combination allows it).";
+      if (!isValidMove(unit, action.x, action.y, state.units, state.gridSize, state.rules)) return "Invalid move.";
+      const dist = Math.abs(unit.x - action.x) + Math.abs(unit.y - action.y);
+      if (unit.movesLeft < dist) return "Not enough moves left.";
+      return null;
+    }
+    case 'rotate': {
+      if (state.turn !== 'player' && state.turn !== 'computer') return "Game has not started.";
+      const unit = state.units.find(u => u.id === action.unitId);
+      if (!unit) return "Unit not found.";
+      if (unit.player !== state.turn) return "Not your unit.";
+      if (!canRotate(unit)) return unit.type === UnitType.CAVALRY
+        ? "Cannot rotate (Need at least 1 move remaining)."
+        : "Cannot rotate (Rule 9: no further action combination allows it).";
+      if (unit.rotation === action.direction) return "Unit already faces that way.";
+      return null;
+    }
+    case 'attack': {
+      if (state.turn !== 'player' && state.turn !== 'computer') return "Game has not started.";
+      const target = state.units.find(u => u.id === action.targetId);
+      if (!target) return "Target not found.";
+      if (action.attackerIds.length === 0) return "No attackers selected.";
+      for (const id of action.attackerIds) {
+        const attacker = state.units.find(u => u.id === id);
+        if (!attacker) return "Attacker not found.";
+        if (attacker.player !== state.turn) return "Not your unit.";
+        if (attacker.attacksLeft > 0 && !canTakeAction(attacker, 'attack')) return `${attacker.type} cannot attack (Rule 9: no further action combination allows it).`;
+        if (!canAttack(attacker, target, state.units, state.rules)) return `${attacker.type} cannot attack that target.`;
+      }
+      for (const id of action.chargeIds ?? []) {
+        const charger = state.units.find(u => u.id === id);
+        if (!charger || !action.attackerIds.includes(id)) return "Only attacking cavalry can charge.";
+        if (!canCharge(charger, state.rules)) return "Charge needs cavalry with a move left.";
+      }
+      return null;
+    }
+    case 'end_turn': {
+      if (state.turn !== 'player' && state.turn !== 'computer') return "Game has not started.";
+      return null;
+    }
+    case 'resign': {
+      // Either side may resign at any point of the battle, not only on its own turn
+      if (state.turn !== 'player' && state.turn !== 'computer') return "Game has not started.";
+      return null;
+    }
+  }
+};
+
+export const checkWinCondition = (state: GameState): GameState => {
+  const playerUnits = state.units.filter(u => u.player === 'player');
+  const computerUnits = state.units.filter(u => u.player === 'computer');
+
+  const end = (winner: Player, log: string): GameState =>
+    ({ ...state, winner, endReason: 'elimination', turn: 'game_over', logs: [...state.logs, log] });
+
+  if (state.mode !== 'vs_computer') {
+    if (playerUnits.length === 0) return end('computer', "Red wins!");
+    if (computerUnits.length === 0) return end('player', "Blue wins!");
+    return state;
+  }
+
+  if (playerUnits.length === 0) return end('computer', "Defeat! Computer wins.");
+  if (computerUnits.length === 0) return end('player', "Victory! You win.");
+
+  return state;
+};
+
+// Rule 16: the game is drawn once both players in a row end their turn without doing anything
+export const DRAW_AFTER_PASSIVE_TURNS = 2;
+
+// A turn is passive when the side has no action in the record for it (undone actions are removed)
+const isPassiveTurn = (state: GameState, side: Player): boolean =>
+  !state.record.some(e => e.turn === state.turnNumber && e.side === side);
+
+export const getResultText = (state: GameState): string => {
+  if (state.turn !== 'game_over') return '';
+  if (state.winner === 'draw' || state.winner === null) return 'Draw: both sides passed';
+  const winner = getSideName(state, state.winner);
+  if (state.endReason === 'resignation') return `${getSideName(state, getOpponent(state.winner))} resigned, ${winner} won`;
+  return `${winner} won by elimination`;
+};
+
+// --- Undo / Redo ---
+// Only movement and rotation are recorded; a new action discards the redo stack.
+const pushHistory = (state: GameState, action: GameAction): GameState => ({
+  ...state,
+  undoStack: [...state.undoStack, { action, units: state.units }],
+  redoStack: []
+});
+
+export const canUndo = (state: GameState): boolean =>
+  (state.turn === 'player' || state.turn === 'computer') && state.undoStack.length > 0;
+
+export const canRedo = (state: GameState): boolean =>
+  (state.turn === 'player' || state.turn === 'computer') && state.redoStack.length > 0;
+
+export const undo = (state: GameState): GameState => {
+  if (!canUndo(state)) return state;
+  const entry = state.undoStack[state.undoStack.length - 1];
+  return {
+    ...state,
+    units: entry.units,
+    pendingAttack: null,
+    record: state.record.slice(0, -1),
+    undoStack: state.undoStack.slice(0, -1),
+    redoStack: [...state.redoStack, entry.action]
+  };
+};
+
+export const redo = (state: GameState): GameState => {
+  if (!canRedo(state)) return state;
+  const action = state.redoStack[state.redoStack.length - 1];
+  if (getActionError(state, action)) return state;
+  return { ...applyAction(state, action), redoStack: state.redoStack.slice(0, -1) };
+};
+
+// Applies a legal action and returns the next state. Throws on illegal actions;
+// use getActionError first when the action comes from user input.
+export const applyAction = (state: GameState, action: GameAction): GameState => {
+  const error = getActionError(state, action);
+  if (error) throw new Error(error);
+
+  const entry: RecordEntry = {
+    turn: state.turnNumber,
+    side: state.turn === 'player' || state.turn === 'computer' ? state.turn : 'setup',
+    notation: formatAction(state, action)
+  };
+  const next = applyRules(state, action);
+  return { ...next, record: [...next.record, entry] };
+};
+
+const applyRules = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'set_army':
+      return { ...state, reserves: { ...state.reserves, [action.player]: { ...action.army } } };
+
+    case 'finish_army':
+      return { ...state, turn: 'setup_placement', logs: [...state.logs, "Armies ready. Deploy your units."] };
+
+    case 'place_unit': {
+      const reserves = {
+        ...state.reserves,
+        [action.player]: { ...state.reserves[action.player], [action.unitType]: state.reserves[action.player][action.unitType] - 1 }
+      };
+      return {
+        ...state,
+        units: [...state.units, createUnit(action.unitType, action.player, action.x, action.y)],
+        reserves
+      };
+    }
+    case 'finish_placement':
+      return { ...state, turn: 'setup_support', logs: [...state.logs, "Placement finished. Set support lines."] };
+
+    case 'toggle_support': {
+      const supports = getSupportLines(state, action.player);
+      const exists = supports.some(s => s.type === action.lineType && s.index === action.index);
+      const newSupports = exists
+        ? supports.filter(s => !(s.type === action.lineType && s.index === action.index))
+        : [...supports, { player: action.player, type: action.lineType, index: action.index }];
+      return action.player === 'player'
+        ? { ...state, playerSupport: newSupports }
+        : { ...state, computerSupport: newSupports };
+    }
+    case 'finish_setup':
+      return {
+        ...state,
+        turn: 'player',
+        turnNumber: 1,
+        logs: [...state.logs, state.mode !== 'vs_computer' ? "Game Start! Blue's Turn." : "Game Start! Your Turn."]
+      };
+
+    case 'move': {
+      const units = state.units.map(u => {
+        if (u.id !== action.unitId) return u;
+        const cost = Math.abs(u.x - action.x) + Math.abs(u.y - action.y);
+        return {
+          ...u,
+          x: action.x,
+          y: action.y,
+          rotation: getRotationForMove(u, action.x, action.y),
+          movesLeft: u.movesLeft - cost,
+          actions: [...u.actions, ...Array<'move'>(cost).fill('move')]
+        };
+      });
+      return { ...pushHistory(state, action), units };
+    }
+    case 'rotate': {
+      const units = state.units.map(u =>
+        u.id === action.unitId ? { ...u, rotation: action.direction, actions: [...u.actions, 'rotate' as const] } : u
+      );
+      return { ...pushHistory(state, action), units };
+    }
+    case 'attack': {
+      const attackers = state.units.filter(u => action.attackerIds.includes(u.id));
+      const defender = state.units.find(u => u.id === action.targetId)!;
+      const side = attackers[0].player;
+      const chargeIds = action.chargeIds ?? [];
+      const result = resolveCombat(
+        attackers, defender, getSupportLines(state, side), getSupportLines(state, defender.player), state.rules, chargeIds
+      );
+
+      // Charging cavalry pays for its +1 with a move (rule 13)
+      let units = state.units.map(u => action.attackerIds.includes(u.id)
+        ? { ...u, attacksLeft: 0, movesLeft: chargeIds.includes(u.id) ? 0 : u.movesLeft, actions: [...u.actions, 'attack' as const] }
+        : u);
+      if (result.winner === 'attacker') {
+        units = units.filter(u => u.id !== defender.id);
+      } else if (result.winner === 'defender') {
+        // Attackers Lost! Remove them.
+        units = units.filter(u => !action.attackerIds.includes(u.id));
+      }
+
+      return checkWinCondition({
+        ...observeCombat(state, attackers, defender),
+        units,
+        selectedUnitId: null,
+        pendingAttack: null,
+        combatState: null,
+        logs: [...state.logs, result.log],
+        // Combat reveals support totals, so earlier actions can no longer be taken back
+        undoStack: [],
+        redoStack: []
+      });
+    }
+    case 'end_turn': {
+      const side = state.turn as Player;
+      const units = state.units.map(u =>
+        u.player === side ? { ...u, movesLeft: u.maxMoves, attacksLeft: 1, actions: [] } : u
+      );
+      const next = getOpponent(side);
+      const passiveTurns = isPassiveTurn(state, side) ? state.passiveTurns + 1 : 0;
+      if (passiveTurns >= DRAW_AFTER_PASSIVE_TURNS) {
+        return {
+          ...state,
+          units,
+          passiveTurns,
+          winner: 'draw',
+          endReason: 'mutual_pass',
+          turn: 'game_over',
+          selectedUnitId: null,
+          pendingAttack: null,
+          combatState: null,
+          logs: [...state.logs, "Both sides passed. The game is a draw."],
+          undoStack: [],
+          redoStack: []
+        };
+      }
+      return checkWinCondition({
+        ...state,
+        units,
+        passiveTurns,
+        turn: next,
+        turnNumber: state.turnNumber + 1,
+        selectedUnitId: null,
+        pendingAttack: null,
+        combatState: null,
+        logs: state.mode !== 'vs_computer'
+          ? [...state.logs, `${getSideName(state, next)}'s Turn.`]
+          : next === 'player' ? [...state.logs, "Your Turn."] : state.logs,
+        undoStack: [],
+        redoStack: []
+      });
+    }
+    case 'resign': {
+      const winner = getOpponent(action.player);
+      const log = state.mode !== 'vs_computer'
+        ? `${getSideName(state, action.player)} resigns. ${getSideName(state, winner)} wins!`
+        : action.player === 'player' ? "You resign. Computer wins." : "Computer resigns. You win!";
+      return {
+        ...state,
+        winner,
+        endReason: 'resignation',
+        turn: 'game_over',
+        selectedUnitId: null,
+        pendingAttack: null,
+        combatState: null,
+        logs: [...state.logs, log],
+        undoStack: [],
+        redoStack: []
+      };
+    }
+  }
+};
+
+// All non-empty subsets of the given ids, used to enumerate joint attacks
+const getSubsets = (ids: string[]): string[][] => {
+  const subsets: string[][] = [];
+  for (let mask = 1; mask < (1 << ids.length); mask++) {
+    subsets.push(ids.filter((_, i) => mask & (1 << i)));
+  }
+  return subsets;
+};
+
+export const getLegalActions = (state: GameState): GameAction[] => {
+  const actions: GameAction[] = [];
+  const players: Player[] = ['player', 'computer'];
+
+  if (state.turn === 'setup_army') {
+    players.forEach(player => {
+      for (let infantry = 0; infantry <= MAX_ARMY_SIZE; infantry++) {
+        for (let archers = 0; archers <= MAX_ARMY_SIZE - infantry; archers++) {
+          for (let cavalry = 0; cavalry <= MAX_ARMY_SIZE - infantry - archers; cavalry++) {
+            const army = { [UnitType.INFANTRY]: infantry, [UnitType.ARCHER]: archers, [UnitType.CAVALRY]: cavalry };
+            actions.push({ type: 'set_army', player, army });
+          }
+        }
+      }
+    });
+    actions.push({ type: 'finish_army' });
+  } else if (state.turn === 'setup_placement') {
+    players.forEach(player => {
+      getDeploymentZone(player, state.gridSize).forEach(({ x, y }) => {
+        [UnitType.INFANTRY, UnitType.ARCHER, UnitType.CAVALRY].forEach(unitType => {
+          actions.push({ type: 'place_unit', player, unitType, x, y });
+        });
+      });
+    });
+    actions.push({ type: 'finish_placement' });
+  } else if (state.turn === 'setup_support') {
+    players.forEach(player => {
+      (['row', 'col'] as const).forEach(lineType => {
+        for (let index = 1; index <= state.gridSize; index++) {
+          actions.push({ type: 'toggle_support', player, lineType, index });
+        }
+      });
+    });
+    actions.push({ type: 'finish_setup' });
+  } else if (state.turn === 'player' || state.turn === 'computer') {
+    const side = state.turn;
+    const myUnits = state.units.filter(u => u.player === side);
+
+    myUnits.forEach(unit => {
+      for (let y = 1; y <= state.gridSize; y++) {
+        for (let x = 1; x <= state.gridSize; x++) {
+          actions.push({ type: 'move', unitId: unit.id, x, y });
+        }
+      }
+      [Direction.NORTH, Direction.EAST, Direction.SOUTH, Direction.WEST].forEach(direction => {
+        actions.push({ type: 'rotate', unitId: unit.id, direction });
+      });
+    });
+
+    state.units.filter(u => u.player !== side).forEach(target => {
+      const eligible = myUnits.filter(u => canAttack(u, target, state.units, state.rules)).map(u => u.id);
+      getSubsets(eligible).forEach(attackerIds => {
+        const chargers = attackerIds.filter(id => canCharge(state.units.find(u => u.id === id)!, state.rules));
+        [[], ...getSubsets(chargers)].forEach(chargeIds => {
+          actions.push({ type: 'attack', targetId: target.id, attackerIds, chargeIds });
+        });
+      });
+    });
+    actions.push({ type: 'end_turn' });
+    actions.push({ type: 'resign', player: side });
+  }
+
+  return actions.filter(a => getActionError(state, a) === null);
+};
+
+// Rebuilds the sequence of states for a recorded game: states[i] is the position after i entries.
+// Stops at the first entry that cannot be parsed or applied and reports it.
+export const replayRecord = (initial: GameState, record: RecordEntry[]): { states: GameState[], error: string | null } => {
+  const states: GameState[] = [initial];
+  let state = initial;
+  for (let i = 0; i < record.length; i++) {
+    try {
+      state = applyAction(state, parseNotation(state, record[i].notation));
+    } catch (error) {
+      return { states, error: `Entry ${i + 1} (${record[i].notation}): ${(error as Error).message}` };
+    }
+    states.push(state);
+  }
+  return { states, error: null };
+};
@@ -1,15 +1,35 @@
-import { Unit, UnitType, Direction, Coordinate, SupportLine, Player, GameState } from '../types';
+import {
+  Unit, UnitType, Direction, Coordinate, SupportLine, Player, RuleSet, UnitActionKind, AttackerStrength, CombatWinner
+} from '../types';
+
+// Board is gridSize x gridSize (GameState.gridSize), chosen per game
+export const DEFAULT_GRID_SIZE = 7;
+export const GRID_SIZES = [5, 6, 7, 8, 9, 10, 11];
+
+// Army building (rule 7): cavalry costs 2 points, the other units 1; at most six tokens
+export const UNIT_COSTS: Record<UnitType, number> = {
+  [UnitType.INFANTRY]: 1,
+  [UnitType.ARCHER]: 1,
+  [UnitType.CAVALRY]: 2,
+};
+export const MAX_ARMY_SIZE = 6;
+export const DEFAULT_ARMY_BUDGET = 8;
+export const ARMY_BUDGETS = [6, 7, 8, 9, 10, 12];
+
+// The classic army: 2 infantry, 2 archers, 2 cavalry (8 points)
+export const CLASSIC_ARMY: Record<UnitType, number> = {
+  [UnitType.INFANTRY]: 2,
+  [UnitType.ARCHER]: 2,
+  [UnitType.CAVALRY]: 2,
+};
+
+export const getArmySize = (army: Record<UnitType, number>): number =>
+  Object.values(army).reduce((sum, n) => sum + n, 0);
 
-export const GRID_SIZE = 7;
+export const getArmyCost = (army: Record<UnitType, number>): number =>
+  (Object.entries(army) as [UnitType, number][]).reduce((sum, [type, n]) => sum + UNIT_COSTS[type] * n, 0);
 
-export const INITIAL_ARMY_COMPOSITION = [
-  UnitType.INFANTRY, UnitType.INFANTRY,
-  UnitType.ARCHER, UnitType.ARCHER,
-  UnitType.CAVALRY, UnitType.CAVALRY, 
-  UnitType.ARCHER, UnitType.ARCHER,
-  UnitType.INFANTRY, UnitType.INFANTRY,
-  UnitType.CAVALRY, UnitType.CAVALRY
-];
+export const generateId = () => Math.random().toString(36).substr(2, 9);
 
 // Helper: Get dx/dy for a direction
 export const getVectorForRotation = (dir: Direction): { x: number, y: number } => {
@@ -22,8 +42,8 @@ export const getVectorForRotation = (dir: Direction): { x: number, y: number } =
 };
 
 // Helper: Check if Attacker is flanking Defender
-export const getFlankBonus = (attacker: Unit, defender: Unit): number => {
-  if (attacker.type === UnitType.ARCHER) return 0; // Archers don't get flank bonus per rules
+export const getFlankBonus = (attacker: Unit, defender: Unit, rules: RuleSet): number => {
+  if (attacker.type === UnitType.ARCHER && !rules.archerFlankBonus) return 0; // Archers don't get flank bonus per rules
 
   const dx = attacker.x - defender.x;
   const dy = attacker.y - defender.y;
@@ -61,9 +81,29 @@ export const getUnitAt = (units: Unit[], x: number, y: number): Unit | undefined
   return units.find(u => u.x === x && u.y === y);
 };
 
-export const isValidMove = (unit: Unit, targetX: number, targetY: number, allUnits: Unit[]): boolean => {
+// Rule 9: infantry and archers may take any two actions, or the three-action combinations
+// below. Cavalry is limited only by its two moves and one attack, rotating while a move remains.
+const THREE_ACTION_COMBOS: UnitActionKind[][] = [['move', 'rotate', 'attack'], ['attack', 'rotate', 'move']];
+
+export const canTakeAction = (unit: Unit, kind: UnitActionKind): boolean => {
+  if (kind === 'move' && unit.movesLeft <= 0) return false;
+  if (kind === 'attack' && unit.attacksLeft <= 0) return false;
+  if (unit.type === UnitType.CAVALRY) return kind !== 'rotate' || unit.movesLeft > 0;
+
+  const sequence = [...unit.actions, kind];
+  if (sequence.length <= 2) return true;
+  return THREE_ACTION_COMBOS.some(combo => combo.length === sequence.length && combo.every((k, i) => k === sequence[i]));
+};
+
+// What the unit may still do this turn, for the selected-unit panel
+export const getRemainingActions = (unit: Unit): UnitActionKind[] =>
+  (['move', 'rotate', 'attack'] as UnitActionKind[]).filter(kind => canTakeAction(unit, kind));
+
+export const isValidMove = (unit: Unit, targetX: number, targetY: number, allUnits: Unit[], gridSize: number, rules: RuleSet): boolean => {
+  if (!canTakeAction(unit, 'move')) return false;
+
   // 1-Based Indexing Check
-  if (targetX < 1 || targetX > GRID_SIZE || targetY < 1 || targetY > GRID_SIZE) return false;
+  if (targetX < 1 || targetX > gridSize || targetY < 1 || targetY > gridSize) return false;
   
   const targetOccupied = getUnitAt(allUnits, targetX, targetY);
   if (targetOccupied) return false;
@@ -76,7 +116,7 @@ export const isValidMove = (unit: Unit, targetX: number, targetY: number, allUni
   if (absDist === 1) return true;
 
   // Cavalry Charge: Move 2 tiles straight if facing that way
-  if (unit.type === UnitType.CAVALRY && unit.movesLeft >= 2 && absDist === 2) {
+  if (rules.cavalryDoubleStep && unit.type === UnitType.CAVALRY && unit.movesLeft >= 2 && absDist === 2) {
     const vec = getVectorForRotation(unit.rotation);
     // Check if moving exactly 2 tiles in facing direction
     if (dx === vec.x * 2 && dy === vec.y * 2) {
@@ -92,13 +132,19 @@ export const isValidMove = (unit: Unit, targetX: number, targetY: number, allUni
   return false;
 };
 
-export const canRotate = (unit: Unit): boolean => {
-  // Polish rules: "Can rotate as long as at least one move remains"
-  return unit.movesLeft > 0;
+// Helper: Units turn to face the direction they move in
+export const getRotationForMove = (unit: Unit, targetX: number, targetY: number): Direction => {
+  if (targetY < unit.y) return Direction.NORTH;
+  if (targetX > unit.x) return Direction.EAST;
+  if (targetY > unit.y) return Direction.SOUTH;
+  if (targetX < unit.x) return Direction.WEST;
+  return unit.rotation;
 };
 
-export const canAttack = (attacker: Unit, defender: Unit, allUnits: Unit[]): boolean => {
-  if (attacker.attacksLeft <= 0) return false;
+export const canRotate = (unit: Unit): boolean => canTakeAction(unit, 'rotate');
+
+export const canAttack = (attacker: Unit, defender: Unit, allUnits: Unit[], rules: RuleSet): boolean => {
+  if (!canTakeAction(attacker, 'attack')) return false;
   if (attacker.player === defender.player) return false;
 
   const dxRaw = defender.x - attacker.x;
@@ -117,7 +163,7 @@ export const canAttack = (attacker: Unit, defender: Unit, allUnits: Unit[]): boo
 
   if (attacker.type === UnitType.ARCHER) {
       // Range logic
-      const isDiagonal = dx === 1 && dy === 1;
+      const isDiagonal = rules.archerDiagonalShot && dx === 1 && dy === 1;
       const isLinearGap = (dx === 2 && dy === 0) || (dx === 0 && dy === 2);
       const isAdjacentToAnyEnemy = allUnits.some(e => 
         e.player !== attacker.player && (Math.abs(attacker.x - e.x) + Math.abs(attacker.y - e.y)) === 1
@@ -140,28 +186,62 @@ export const canAttack = (attacker: Unit, defender: Unit, allUnits: Unit[]): boo
   }
 };
 
-export const getValidAttackTargets = (unit: Unit, allUnits: Unit[]): Unit[] => {
+export const getValidAttackTargets = (unit: Unit, allUnits: Unit[], rules: RuleSet): Unit[] => {
   const enemies = allUnits.filter(u => u.player !== unit.player);
-  return enemies.filter(enemy => canAttack(unit, enemy, allUnits));
+  return enemies.filter(enemy => canAttack(unit, enemy, allUnits, rules));
 };
 
-export const isValidSupportPlacement = (supports: SupportLine[], newSupport: SupportLine): boolean => {
-  if (supports.length >= 3) return false;
+export const isValidSupportPlacement = (supports: SupportLine[], newSupport: SupportLine, rules: RuleSet): boolean => {
+  if (supports.length >= rules.maxSupports) return false;
   for (const s of supports) {
     if (s.type === newSupport.type) {
-      // Allow adjacent lines, just not duplicates of the exact same line
       if (s.index === newSupport.index) return false;
+      // Rule 5 forbids neighbouring parallel lines; the app's default rules allow them
+      if (!rules.adjacentSupports && Math.abs(s.index - newSupport.index) === 1) return false;
     }
   }
   return true;
 };
 
+// Rule 13: cavalry may give up its remaining moves for +1 when attacking
+export const canCharge = (unit: Unit, rules: RuleSet): boolean =>
+  rules.chargeBonus && unit.type === UnitType.CAVALRY && unit.movesLeft > 0;
+
+// Strength of one attacker against the defender, split into its parts
+export const getAttackerStrength = (
+  atk: Unit,
+  defender: Unit,
+  attackerSupport: SupportLine[],
+  rules: RuleSet,
+  chargeIds: string[] = []
+): AttackerStrength => {
+  const support = calculateBaseStrength(atk, attackerSupport) - 1;
+  const flank = getFlankBonus(atk, defender, rules);
+  // Charge (Cavalry only, opt-in: gives up its remaining moves)
+  const charge = canCharge(atk, rules) && chargeIds.includes(atk.id) ? 1 : 0;
+  return { unitId: atk.id, base: 1, support, flank, charge, total: 1 + support + flank + charge };
+};
+
+// Special Rule: Archers die instantly in melee defense
+// If defender is Archer and ANY attacker is NOT Archer, it's a melee kill.
+export const isArcherOverrun = (attackers: Unit[], defender: Unit): boolean =>
+  defender.type === UnitType.ARCHER && attackers.some(a => a.type !== UnitType.ARCHER);
+
+// Melee attackers die if they lose. Ranged attackers just fail (treated as a tie, nobody dies).
+export const getCombatWinner = (attackers: Unit[], atkTotal: number, defTotal: number): CombatWinner => {
+  if (atkTotal > defTotal) return 'attacker';
+  if (defTotal > atkTotal) return attackers.some(u => u.type !== UnitType.ARCHER) ? 'defender' : 'tie';
+  return 'tie';
+};
+
 export const resolveCombat = (
   attackers: Unit[], 
   defender: Unit, 
   attackerSupport: SupportLine[], 
-  defenderSupport: SupportLine[]
-): { winner: 'attacker' | 'defender' | 'tie', log: string, atkTotal: number, defTotal: number } => {
+  defenderSupport: SupportLine[],
+  rules: RuleSet,
+  chargeIds: string[] = []
+): { winner: CombatWinner, log: string, atkTotal: number, defTotal: number } => {
   
   // --- DEFENDER CALC ---
   let defBase = calculateBaseStrength(defender, defenderSupport);
@@ -169,64 +249,22 @@ export const resolveCombat = (
   let defTotal = defBase;
 
   // --- ATTACKERS CALC ---
-  let atkTotal = 0;
-  let atkLogParts: string[] = [];
-
-  attackers.forEach(atk => {
-    let strength = calculateBaseStrength(atk, attackerSupport);
-    let details = `${atk.type}(${strength}`;
-    
-    // Flanking
-    const flank = getFlankBonus(atk, defender);
-    if (flank > 0) {
-      strength += flank;
-      details += `+Flank`;
-    }
-
-    // Charge (Cavalry only)
-    if (atk.type === UnitType.CAVALRY && atk.movesLeft > 0) {
-      strength += 1;
-      details += `+Charge`;
-    }
-
-    details += `)`;
-    atkLogParts.push(details);
-    atkTotal += strength;
-  });
+  const strengths = attackers.map(atk => getAttackerStrength(atk, defender, attackerSupport, rules, chargeIds));
+  const atkTotal = strengths.reduce((sum, s) => sum + s.total, 0);
+  const atkLogParts = strengths.map((s, i) =>
+    `${attackers[i].type}(${s.base + s.support}${s.flank > 0 ? '+Flank' : ''}${s.charge > 0 ? '+Charge' : ''})`
+  );
 
   let log = `COMBAT: ${atkLogParts.join(' + ')} = ${atkTotal} vs Defender ${defDetails} = ${defTotal}. `;
 
-  // Special Rule: Archers die instantly in melee defense
-  // If defender is Archer and ANY attacker is NOT Archer, it's a melee kill.
-  if (defender.type === UnitType.ARCHER && attackers.some(a => a.type !== UnitType.ARCHER)) {
+  if (isArcherOverrun(attackers, defender)) {
       log = `Melee units overrun Archer! Auto-win.`;
       return { winner: 'attacker', log, atkTotal, defTotal: 0 };
   }
 
-  if (atkTotal > defTotal) {
-    log += `Attackers win!`;
-    return { winner: 'attacker', log, atkTotal, defTotal };
-  } else if (defTotal > atkTotal) {
-    // Melee attackers die if they lose. Ranged attackers just fail.
-    const isMeleeAttack = attackers.some(u => u.type !== UnitType.ARCHER);
-
-    if (isMeleeAttack) {
-        log += `Defender Repels Attack! Attackers Lost.`;
-        return { winner: 'defender', log, atkTotal, defTotal }; 
-    } else {
-        log += `Ranged Attack Failed.`;
-        return { winner: 'tie', log, atkTotal, defTotal }; // Treat as tie (nobody dies)
-    }
-  } else {
-    log += `Stalemate.`;
-    return { winner: 'tie', log, atkTotal, defTotal };
-  }
+  const winner = getCombatWinner(attackers, atkTotal, defTotal);
+  if (winner === 'attacker') log += `Attackers win!`;
+  else if (winner === 'defender') log += `Defender Repels Attack! Attackers Lost.`;
+  else log += defTotal > atkTotal ? `Ranged Attack Failed.` : `Stalemate.`;
+  return { winner, log, atkTotal, defTotal };
 };
-
-export const getCombatOutcome = (
-    attackers: Unit[], 
-    defender: Unit, 
-    gameState: GameState
-) => {
-    return resolveCombat(attackers, defender, gameState.computerSupport, gameState.playerSupport);
-};
\ No newline at end of file
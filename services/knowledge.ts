@@ -0,0 +1,196 @@
+import {
+  GameState, Player, RuleSet, SupportLine, SupportKnowledge, SupportObservation, Unit, UnitType, CombatPreview, CombatWinner, CombatOdds
+} from '../types';
+import { calculateBaseStrength, isValidSupportPlacement, getAttackerStrength, getCombatWinner, isArcherOverrun } from './gameLogic';
+
+// Hidden support lines (rules 5 and 12): a side never sees where the opponent's
+// lines are, but every combat makes both sides declare the support bonus of
+// their units. Each side keeps those declarations and narrows down which lines
+// the opponent can have.
+
+export const createEmptyKnowledge = (): SupportKnowledge => ({ observations: [], deduced: [], excluded: [] });
+
+export const getSupportBonus = (unit: Unit, supportLines: SupportLine[]): number =>
+  calculateBaseStrength(unit, supportLines) - 1;
+
+const coversSquare = (line: SupportLine, x: number, y: number): boolean =>
+  line.type === 'row' ? line.index === y : line.index === x;
+
+const getAllLines = (player: Player, gridSize: number): SupportLine[] => {
+  const lines: SupportLine[] = [];
+  (['row', 'col'] as const).forEach(type => {
+    for (let index = 1; index <= gridSize; index++) lines.push({ player, type, index });
+  });
+  return lines;
+};
+
+// Every support placement the opponent could have chosen (isValidSupportPlacement caps the count)
+const getCandidatePlacements = (player: Player, gridSize: number, rules: RuleSet): SupportLine[][] => {
+  const placements: SupportLine[][] = [[]];
+  const extend = (current: SupportLine[], start: number, lines: SupportLine[]) => {
+    for (let i = start; i < lines.length; i++) {
+      if (!isValidSupportPlacement(current, lines[i], rules)) continue;
+      const next = [...current, lines[i]];
+      placements.push(next);
+      extend(next, i + 1, lines);
+    }
+  };
+  extend([], 0, getAllLines(player, gridSize));
+  return placements;
+};
+
+const isConsistent = (placement: SupportLine[], observations: SupportObservation[]): boolean =>
+  observations.every(o => placement.filter(l => coversSquare(l, o.x, o.y)).length === o.bonus);
+
+// Lines present in every placement that fits the declarations are deduced,
+// lines absent from all of them are excluded.
+export const deduceSupportLines = (
+  opponent: Player, observations: SupportObservation[], gridSize: number, rules: RuleSet
+): SupportKnowledge => {
+  const consistent = getCandidatePlacements(opponent, gridSize, rules).filter(p => isConsistent(p, observations));
+  if (consistent.length === 0) return { observations, deduced: [], excluded: [] };
+
+  const lines = getAllLines(opponent, gridSize);
+  const isIn = (placement: SupportLine[], line: SupportLine) =>
+    placement.some(l => l.type === line.type && l.index === line.index);
+
+  return {
+    observations,
+    deduced: lines.filter(line => consistent.every(p => isIn(p, line))),
+    excluded: lines.filter(line => consistent.every(p => !isIn(p, line)))
+  };
+};
+
+// Both sides hear every declaration: attackers and defender announce their bonus.
+// Nothing is declared when archers are overrun, since strength is not compared.
+export const observeCombat = (state: GameState, attackers: Unit[], defender: Unit): GameState => {
+  const isOverrun = defender.type === UnitType.ARCHER && attackers.some(a => a.type !== UnitType.ARCHER);
+  if (isOverrun) return state;
+
+  const knowledge = { ...state.knowledge };
+  [...attackers, defender].forEach(unit => {
+    const observer: Player = unit.player === 'player' ? 'computer' : 'player';
+    const supports = unit.player === 'player' ? state.playerSupport : state.computerSupport;
+    const observation: SupportObservation = { x: unit.x, y: unit.y, bonus: getSupportBonus(unit, supports) };
+    const known = knowledge[observer].observations;
+    if (known.some(o => o.x === observation.x && o.y === observation.y)) return;
+    knowledge[observer] = deduceSupportLines(unit.player, [...known, observation], state.gridSize, state.rules);
+  });
+  return { ...state, knowledge };
+};
+
+// Whether the viewer sees every line: once the game is over, or in sandbox mode. Sandbox
+// mode is for the human side(s); the computer keeps playing on what it has deduced.
+const isRevealed = (state: GameState, viewer: Player): boolean =>
+  state.turn === 'game_over' || (state.sandbox && (state.mode !== 'vs_computer' || viewer === 'player'));
+
+// Opponent lines a side may see: all of them when revealed, otherwise only the deduced ones.
+export const getKnownSupportLines = (state: GameState, viewer: Player, side: Player): SupportLine[] => {
+  const actual = side === 'player' ? state.playerSupport : state.computerSupport;
+  if (side === viewer || isRevealed(state, viewer)) return actual;
+  return state.knowledge[viewer].deduced;
+};
+
+// Support bonus the viewer has to allow for on a square of the given side: exact for its own
+// units and for squares already declared in combat, otherwise bounded by deduced and excluded lines.
+export const getSupportBonusRange = (state: GameState, viewer: Player, side: Player, x: number, y: number): { min: number, max: number } => {
+  const through = (lines: SupportLine[]) => lines.filter(l => coversSquare(l, x, y)).length;
+  if (side === viewer || isRevealed(state, viewer)) {
+    const bonus = through(getKnownSupportLines(state, viewer, side));
+    return { min: bonus, max: bonus };
+  }
+  const { observations, deduced, excluded } = state.knowledge[viewer];
+  const observed = observations.find(o => o.x === x && o.y === y);
+  if (observed) return { min: observed.bonus, max: observed.bonus };
+  // Only the row and the column through the square can support it
+  return { min: through(deduced), max: Math.min(2 - through(excluded), state.rules.maxSupports) };
+};
+
+// Belief over the opponent's hidden lines: every placement that fits the declarations is taken
+// as equally likely. Gives the chance of each bonus (array index) per square as [y - 1][x - 1].
+// Cached per knowledge object, since a new one replaces it whenever a declaration is heard.
+const beliefCache = new WeakMap<SupportKnowledge, number[][][]>();
+
+const getBonusOddsGrid = (knowledge: SupportKnowledge, opponent: Player, gridSize: number, rules: RuleSet): number[][][] => {
+  const cached = beliefCache.get(knowledge);
+  if (cached) return cached;
+
+  const consistent = getCandidatePlacements(opponent, gridSize, rules).filter(p => isConsistent(p, knowledge.observations));
+  // Declarations no placement fits cannot happen in a real game; fall back to the deduced lines
+  const placements = consistent.length > 0 ? consistent : [knowledge.deduced];
+  const grid: number[][][] = [];
+  for (let y = 1; y <= gridSize; y++) {
+    const row: number[][] = [];
+    for (let x = 1; x <= gridSize; x++) {
+      const odds = [0, 0, 0];
+      placements.forEach(p => odds[p.filter(l => coversSquare(l, x, y)).length] += 1 / placements.length);
+      row.push(odds);
+    }
+    grid.push(row);
+  }
+  beliefCache.set(knowledge, grid);
+  return grid;
+};
+
+// Chance of each support bonus on a square of the given side, as far as the viewer knows.
+// Omniscient viewers (the cheating computer) read the actual lines.
+export const getSupportBonusOdds = (
+  state: GameState, viewer: Player, side: Player, x: number, y: number, omniscient = false
+): number[] => {
+  if (side === viewer || omniscient || isRevealed(state, viewer)) {
+    const actual = side === 'player' ? state.playerSupport : state.computerSupport;
+    const odds = [0, 0, 0];
+    odds[actual.filter(l => coversSquare(l, x, y)).length] = 1;
+    return odds;
+  }
+  return getBonusOddsGrid(state.knowledge[viewer], side, state.gridSize, state.rules)[y - 1][x - 1];
+};
+
+// Chances of each combat result as the viewer can judge them. Hidden bonuses on different
+// squares are treated as independent.
+export const getCombatOdds = (
+  state: GameState, viewer: Player, attackers: Unit[], defender: Unit, chargeIds: string[], omniscient = false
+): CombatOdds => {
+  const odds: CombatOdds = { attacker: 0, defender: 0, tie: 0 };
+  if (isArcherOverrun(attackers, defender)) return { ...odds, attacker: 1 };
+
+  // Attack total without support, then spread over each attacker's possible bonus
+  const fixed = attackers.reduce((sum, a) => sum + getAttackerStrength(a, defender, [], state.rules, chargeIds).total, 0);
+  let atkOdds: number[] = [];
+  atkOdds[fixed] = 1;
+  attackers.forEach(a => {
+    const bonusOdds = getSupportBonusOdds(state, viewer, a.player, a.x, a.y, omniscient);
+    const next: number[] = [];
+    atkOdds.forEach((p, total) => bonusOdds.forEach((q, bonus) => {
+      if (q > 0) next[total + bonus] = (next[total + bonus] ?? 0) + p * q;
+    }));
+    atkOdds = next;
+  });
+
+  const defOdds = getSupportBonusOdds(state, viewer, defender.player, defender.x, defender.y, omniscient);
+  atkOdds.forEach((p, atkTotal) => defOdds.forEach((q, bonus) => {
+    if (q > 0) odds[getCombatWinner(attackers, atkTotal, 1 + bonus)] += p * q;
+  }));
+  return odds;
+};
+
+// The combat math of resolveCombat applied to what the attacking side knows, without resolving anything
+export const previewCombat = (state: GameState, attackerIds: string[], targetId: string, chargeIds: string[]): CombatPreview | null => {
+  const attackers = state.units.filter(u => attackerIds.includes(u.id));
+  const defender = state.units.find(u => u.id === targetId);
+  if (attackers.length === 0 || !defender) return null;
+
+  const side = attackers[0].player;
+  const supports = side === 'player' ? state.playerSupport : state.computerSupport;
+  const strengths = attackers.map(atk => getAttackerStrength(atk, defender, supports, state.rules, chargeIds));
+  const atkTotal = strengths.reduce((sum, s) => sum + s.total, 0);
+  const { min, max } = getSupportBonusRange(state, side, defender.player, defender.x, defender.y);
+  const overrun = isArcherOverrun(attackers, defender);
+
+  const outcomes: CombatWinner[] = [];
+  for (let bonus = min; bonus <= max; bonus++) {
+    const winner = overrun ? 'attacker' : getCombatWinner(attackers, atkTotal, 1 + bonus);
+    if (!outcomes.includes(winner)) outcomes.push(winner);
+  }
+  return { attackers: strengths, atkTotal, defMin: 1 + min, defMax: 1 + max, overrun, outcomes };
+};
@@ -0,0 +1,271 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { GameState, Direction, AIAction, AIProgressHandler, LLMConfig, SupportLine } from "../types";
+import { getRemainingActions, getValidAttackTargets } from "./gameLogic";
+import { applyAction, getActionError } from "./engine";
+import { getComputerMovesLocal, getValidMoves, toGameAction } from "./aiLogic";
+
+// The 'llm' difficulty: a language model plans the computer's turn. Every plan is replayed
+// on a copy of the game before it is used; illegal plans go back to the model with the
+// reasons, and after MAX_ATTEMPTS the built-in planner takes over.
+// Works with Gemini or any OpenAI-compatible server (llama.cpp, or server/mockLLM.ts offline).
+
+const CONFIG_KEY = 'skrimish7x7.llmConfig';
+const MAX_ATTEMPTS = 3; // The first answer plus two repairs
+const REQUEST_TIMEOUT_MS = 60000;
+
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  provider: 'gemini',
+  baseUrl: 'http://localhost:8080/v1',
+  model: 'gemini-2.5-flash',
+  apiKey: '',
+};
+
+export const loadLLMConfig = (): LLMConfig => {
+  try {
+    const json = localStorage.getItem(CONFIG_KEY);
+    return json ? { ...DEFAULT_LLM_CONFIG, ...JSON.parse(json) } : DEFAULT_LLM_CONFIG;
+  } catch {
+    return DEFAULT_LLM_CONFIG;
+  }
+};
+
+export const saveLLMConfig = (config: LLMConfig) => {
+  try {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  } catch {
+    // Storage unavailable; the settings last until the page is closed
+  }
+};
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const DIRECTION_NAMES = ['NORTH', 'EAST', 'SOUTH', 'WEST'];
+const dirToString = (d: Direction) => DIRECTION_NAMES[d];
+const lineToString = (s: SupportLine) => `${s.type === 'row' ? 'ROW' : 'COLUMN'} ${s.index}`;
+
+const getSystemPrompt = (gameState: GameState): string => {
+  const { gridSize, rules } = gameState;
+  return `You play the 'computer' side of the tactical board game "Skrimish 7x7" on a ${gridSize}x${gridSize} board.
+Squares are 1-based: x is the column from 1 (left) to ${gridSize} (right), y is the row from 1 (top) to ${gridSize} (bottom).
+You start at the top (rows 1-2), the enemy 'player' at the bottom. NORTH is toward row 1, SOUTH toward row ${gridSize}.
+
+Rules:
+- A move goes one square up, down, left or right onto an empty square; the unit then faces the way it moved.${rules.cavalryDoubleStep ? `
+- Cavalry has two moves and may spend both to go two squares straight ahead over an empty square.` : ''}
+- Infantry and archers take at most two actions per turn, or exactly move, rotate, attack or attack, rotate, move.
+  Cavalry may move twice, attack once, and rotate while it still has a move left.
+- Melee units attack the adjacent square they face. Archers shoot two squares straight ahead over an empty square${rules.archerDiagonalShot ? ', or a diagonal neighbour on their front side' : ''}; they cannot shoot while next to an enemy.
+- Strength is 1 plus 1 for each of the side's support lines through the unit's square. Attacking from the side or rear adds 1${rules.archerFlankBonus ? '' : ' (not for archers)'}.${rules.chargeBonus ? ' Cavalry with a move left may charge for +1 (list it in chargeIds), giving up its remaining moves.' : ''}
+- Several units may attack one target together: list all of them in attackerIds, their strengths add up.
+- Higher strength wins and the loser is removed; ties leave both. Losing melee attackers die, failed archer shots do nothing.
+  An archer attacked in melee always dies.
+- The enemy's support lines are secret, except the ones listed as known.
+
+Answer with a JSON array of actions only, carried out in order:
+{ "unitId": "id", "actionType": "move", "target": {"x": number, "y": number} }
+{ "unitId": "id", "actionType": "rotate", "direction": 0|1|2|3 } (0 NORTH, 1 EAST, 2 SOUTH, 3 WEST)
+{ "unitId": "id", "actionType": "attack", "target": {"x": number, "y": number}, "attackerIds": ["id", ...], "chargeIds": ["id", ...] }
+End with { "unitId": "global", "actionType": "end_turn" }.
+Only use your own unit ids. Kill enemy units, protect your archers, avoid showing your side or rear to the enemy.`;
+};
+
+// The position as the computer sees it: its own support lines, but only the enemy lines it has deduced
+export const describePosition = (gameState: GameState): string => {
+  const position = {
+    turn: gameState.turnNumber,
+    yourUnits: gameState.units.filter(u => u.player === 'computer').map(u => ({
+      id: u.id,
+      type: u.type,
+      x: u.x,
+      y: u.y,
+      facing: dirToString(u.rotation),
+      movesLeft: u.movesLeft,
+      attacksLeft: u.attacksLeft,
+      canStill: getRemainingActions(u),
+      legalMoves: getValidMoves(u, gameState.units, gameState),
+      attackableNow: getValidAttackTargets(u, gameState.units, gameState.rules).map(t => ({ x: t.x, y: t.y })),
+    })),
+    enemyUnits: gameState.units.filter(u => u.player === 'player').map(u => ({
+      type: u.type,
+      x: u.x,
+      y: u.y,
+      facing: dirToString(u.rotation),
+    })),
+    yourSupportLines: gameState.computerSupport.map(lineToString),
+    knownEnemySupportLines: gameState.knowledge.computer.deduced.map(lineToString),
+    ruledOutEnemySupportLines: gameState.knowledge.computer.excluded.map(lineToString),
+  };
+  return `Position:\n\`\`\`json\n${JSON.stringify(position)}\n\`\`\`\nPlan your whole turn.`;
+};
+
+// Models like to wrap JSON in prose or code fences; take the outermost array
+const extractJsonArray = (text: string): unknown => {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start < 0 || end < start) throw new Error("no JSON array found");
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isCoordinate = (v: unknown): v is { x: number, y: number } => isObject(v) && Number.isInteger(v.x) && Number.isInteger(v.y);
+const isIdList = (v: unknown): v is string[] | undefined => v === undefined || (Array.isArray(v) && v.every(id => typeof id === 'string'));
+
+// One entry of the answer as an AIAction, or what is wrong with it
+const readAction = (raw: unknown): AIAction | string => {
+  if (!isObject(raw)) return "is not an object";
+  if (raw.actionType === 'end_turn') return { unitId: 'global', actionType: 'end_turn' };
+  if (typeof raw.unitId !== 'string') return "needs a unitId";
+  if (!isIdList(raw.attackerIds) || !isIdList(raw.chargeIds)) return "attackerIds and chargeIds must be lists of unit ids";
+  switch (raw.actionType) {
+    case 'move':
+    case 'attack':
+      if (!isCoordinate(raw.target)) return `${raw.actionType} needs a target with whole-number x and y`;
+      return { unitId: raw.unitId, actionType: raw.actionType, target: { x: raw.target.x, y: raw.target.y }, attackerIds: raw.attackerIds, chargeIds: raw.chargeIds };
+    case 'rotate': {
+      const direction = typeof raw.direction === 'string' ? DIRECTION_NAMES.indexOf(raw.direction.toUpperCase()) : raw.direction;
+      if (typeof direction !== 'number' || ![0, 1, 2, 3].includes(direction)) return "rotate needs a direction from 0 to 3";
+      return { unitId: raw.unitId, actionType: 'rotate', direction };
+    }
+    default:
+      return `unknown actionType ${JSON.stringify(raw.actionType)}`;
+  }
+};
+
+// Replays the answer on a copy of the game. Returns the plan and every reason it cannot be
+// played; the plan is only used when there are none. Combats on the copy are fought over the
+// player's deduced lines, not the hidden ones, so no error can give away how one would really end.
+export const checkPlan = (gameState: GameState, text: string): { actions: AIAction[], errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = extractJsonArray(text);
+  } catch (error) {
+    return { actions: [], errors: [`The answer is not a JSON array (${error instanceof Error ? error.message : String(error)}).`] };
+  }
+  if (!Array.isArray(raw)) return { actions: [], errors: ["The answer is not a JSON array."] };
+
+  const actions: AIAction[] = [];
+  const errors: string[] = [];
+  let state: GameState = { ...gameState, playerSupport: gameState.knowledge.computer.deduced };
+  for (const [i, entry] of raw.entries()) {
+    const action = readAction(entry);
+    const label = `Action ${i + 1} ${JSON.stringify(entry)}`;
+    if (typeof action === 'string') {
+      errors.push(`${label}: ${action}.`);
+      continue;
+    }
+    if (action.actionType === 'end_turn') break;
+
+    const gameAction = toGameAction(state, action);
+    const error = gameAction ? getActionError(state, gameAction) : `there is no unit at (${action.target!.x},${action.target!.y}) to attack, or none of the attackers is left`;
+    if (error) {
+      errors.push(`${label}: ${error}`);
+      continue;
+    }
+    actions.push(action);
+    state = applyAction(state, gameAction!);
+    if (state.turn === 'game_over') break;
+  }
+  return { actions: [...actions, { unitId: 'global', actionType: 'end_turn' }], errors };
+};
+
+const getRepairPrompt = (errors: string[]): string =>
+  `Your plan cannot be played, nothing of it was carried out:\n${errors.map(e => `- ${e}`).join('\n')}\n` +
+  `The position is unchanged. Reply with a corrected complete plan as a JSON array only.`;
+
+const callGemini = async (config: LLMConfig, messages: ChatMessage[]): Promise<string> => {
+  const apiKey = config.apiKey || process.env.API_KEY;
+  if (!apiKey) throw new Error("no Gemini API key (set GEMINI_API_KEY or enter one)");
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: config.model || DEFAULT_LLM_CONFIG.model,
+    contents: messages.filter(m => m.role !== 'system').map(m => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: m.content }]
+    })),
+    config: {
+      systemInstruction: messages.find(m => m.role === 'system')?.content,
+      abortSignal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            unitId: { type: Type.STRING },
+            actionType: { type: Type.STRING, enum: ['move', 'rotate', 'attack', 'end_turn'] },
+            target: {
+              type: Type.OBJECT,
+              properties: { x: { type: Type.INTEGER }, y: { type: Type.INTEGER } }
+            },
+            direction: { type: Type.INTEGER },
+            attackerIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+            chargeIds: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ['unitId', 'actionType']
+        }
+      }
+    }
+  });
+  if (!response.text) throw new Error("Gemini returned no text");
+  return response.text;
+};
+
+// POST {baseUrl}/chat/completions as understood by OpenAI, llama.cpp, Ollama and most local servers
+const callOpenAICompatible = async (config: LLMConfig, messages: ChatMessage[]): Promise<string> => {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+    },
+    body: JSON.stringify({ model: config.model, messages, temperature: 0.2 }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) throw new Error(`endpoint answered ${response.status} ${response.statusText}`);
+  const data = await response.json();
+  const text = data?.choices?.[0]?.message?.content;
+  if (typeof text !== 'string') throw new Error("endpoint returned no message");
+  return text;
+};
+
+export const getLLMComputerMoves = async (
+  gameState: GameState,
+  config: LLMConfig,
+  onProgress?: AIProgressHandler
+): Promise<{ actions: AIAction[], note: string | null }> => {
+  const call = config.provider === 'gemini' ? callGemini : callOpenAICompatible;
+  const messages: ChatMessage[] = [
+    { role: 'system', content: getSystemPrompt(gameState) },
+    { role: 'user', content: describePosition(gameState) }
+  ];
+  const fallback = (reason: string) => {
+    onProgress?.(0.9, 'Using the built-in planner...');
+    return {
+      actions: getComputerMovesLocal({ ...gameState, difficulty: 'hard' }),
+      note: `LLM opponent: ${reason}; the built-in planner played this turn.`
+    };
+  };
+
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    onProgress?.((attempt - 1) / MAX_ATTEMPTS, attempt === 1 ? 'Asking the model...' : `Asking the model to repair its plan (${attempt}/${MAX_ATTEMPTS})...`);
+    let text: string;
+    try {
+      text = await call(config, messages);
+    } catch (error) {
+      return fallback(`request failed (${error instanceof Error ? error.message : String(error)})`);
+    }
+
+    const plan = checkPlan(gameState, text);
+    if (plan.errors.length === 0) {
+      onProgress?.(1, 'Plan checked');
+      return { actions: plan.actions, note: attempt > 1 ? `LLM opponent: plan repaired after ${attempt - 1} rejection(s).` : null };
+    }
+    errors = plan.errors;
+    messages.push({ role: 'assistant', content: text }, { role: 'user', content: getRepairPrompt(errors) });
+  }
+  return fallback(`no legal plan after ${MAX_ATTEMPTS} attempts (last problem: ${errors[0]})`);
+};
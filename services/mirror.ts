@@ -0,0 +1,60 @@
+import { AIAction, Direction, GameState, Player, SupportKnowledge, SupportLine } from '../types';
+import { getOpponent } from './engine';
+
+// The computer's planners are written for the 'computer' side at the top of the board.
+// Mirroring swaps the two sides and flips the board top to bottom, so they can play the
+// 'player' side too: plan on mirrorState(state), then map the plan back with mirrorAIAction.
+// Mirroring twice gives the original position.
+
+const flipY = (y: number, gridSize: number): number => gridSize + 1 - y;
+
+const flipDirection = (d: Direction): Direction =>
+  d === Direction.NORTH ? Direction.SOUTH : d === Direction.SOUTH ? Direction.NORTH : d;
+
+// Turns and winners: the two sides swap, setup phases and draws stay
+const mirrorSide = <T extends string | null>(side: T): T =>
+  (side === 'player' || side === 'computer' ? getOpponent(side as Player) : side) as T;
+
+export const mirrorSupportLine = (line: SupportLine, gridSize: number): SupportLine => ({
+  player: getOpponent(line.player),
+  type: line.type,
+  index: line.type === 'row' ? flipY(line.index, gridSize) : line.index
+});
+
+const mirrorKnowledge = (knowledge: SupportKnowledge, gridSize: number): SupportKnowledge => ({
+  observations: knowledge.observations.map(o => ({ ...o, y: flipY(o.y, gridSize) })),
+  deduced: knowledge.deduced.map(l => mirrorSupportLine(l, gridSize)),
+  excluded: knowledge.excluded.map(l => mirrorSupportLine(l, gridSize))
+});
+
+// Selection, pending attacks and undo history do not survive the flip
+export const mirrorState = (state: GameState): GameState => {
+  const { gridSize } = state;
+  return {
+    ...state,
+    units: state.units.map(u => ({ ...u, player: getOpponent(u.player), y: flipY(u.y, gridSize), rotation: flipDirection(u.rotation) })),
+    playerSupport: state.computerSupport.map(l => mirrorSupportLine(l, gridSize)),
+    computerSupport: state.playerSupport.map(l => mirrorSupportLine(l, gridSize)),
+    turn: mirrorSide(state.turn),
+    winner: mirrorSide(state.winner),
+    knowledge: {
+      player: mirrorKnowledge(state.knowledge.computer, gridSize),
+      computer: mirrorKnowledge(state.knowledge.player, gridSize)
+    },
+    reserves: { player: state.reserves.computer, computer: state.reserves.player },
+    selectedUnitId: null,
+    combatState: null,
+    pendingAttack: null,
+    undoStack: [],
+    redoStack: []
+  };
+};
+
+// Maps an action planned on a mirrored position back onto the real board (and the reverse)
+export const mirrorAIAction = (action: AIAction, gridSize: number): AIAction => ({
+  ...action,
+  ...(action.target ? { target: { x: action.target.x, y: flipY(action.target.y, gridSize) } } : {}),
+  ...(action.direction !== undefined ? { direction: flipDirection(action.direction) } : {})
+});
+
+export const mirrorSquare = (square: { x: number, y: number }, gridSize: number) => ({ x: square.x, y: flipY(square.y, gridSize) });
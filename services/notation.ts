@@ -0,0 +1,162 @@
+import { GameState, GameAction, Unit, UnitType, Direction, Player } from '../types';
+import { getUnitAt, resolveCombat } from './gameLogic';
+
+// Compact text notation for every Skrimish action. Squares are written as a
+// column letter (a = x 1) followed by the 1-based row, e.g. "c6".
+//
+//   Army          $I2A2C2     units bought per type, zero counts omitted; uppercase = player, lowercase = computer
+//   Placement     I@c6        I/A/C = Infantry/Archer/Cavalry; uppercase = player, lowercase = computer
+//   Support line  S+r4 s-c3   S = player, s = computer; + adds, - removes; r = row, c = column
+//   Next phase    *           finish army building / placement / setup
+//   Move          c6-c5
+//   Charge        d7=d5       cavalry moving two tiles straight ahead
+//   Rotate        c5>E        new facing N/E/S/W
+//   Attack        c5+d5!xd4[3:2]W  attackers joined by '+', '!' marks a charging cavalry, target after 'x',
+//                             attack:defence totals, outcome W (attackers win), L (attackers lost), T (tie)
+//   End turn      /
+//   Resign        Resign      uppercase R = player, lowercase = computer
+
+const UNIT_LETTERS: Record<UnitType, string> = {
+  [UnitType.INFANTRY]: 'I',
+  [UnitType.ARCHER]: 'A',
+  [UnitType.CAVALRY]: 'C',
+};
+const DIRECTION_LETTERS = ['N', 'E', 'S', 'W'];
+
+export const squareName = (x: number, y: number): string => `${String.fromCharCode(96 + x)}${y}`;
+
+export const parseSquare = (text: string): { x: number, y: number } => {
+  const match = /^([a-z])(\d{1,2})$/.exec(text);
+  if (!match) throw new Error(`Invalid square "${text}".`);
+  return { x: match[1].charCodeAt(0) - 96, y: parseInt(match[2], 10) };
+};
+
+const unitSquare = (state: GameState, id: string): string => {
+  const unit = state.units.find(u => u.id === id);
+  if (!unit) throw new Error(`Unknown unit ${id}.`);
+  return squareName(unit.x, unit.y);
+};
+
+const unitAtSquare = (state: GameState, square: string): Unit => {
+  const { x, y } = parseSquare(square);
+  const unit = getUnitAt(state.units, x, y);
+  if (!unit) throw new Error(`No unit on ${square}.`);
+  return unit;
+};
+
+// Formats an action against the state it is applied to (before the action).
+export const formatAction = (state: GameState, action: GameAction): string => {
+  switch (action.type) {
+    case 'set_army': {
+      const parts = (Object.keys(UNIT_LETTERS) as UnitType[])
+        .filter(type => action.army[type] > 0)
+        .map(type => `${action.player === 'player' ? UNIT_LETTERS[type] : UNIT_LETTERS[type].toLowerCase()}${action.army[type]}`);
+      return `$${parts.join('')}`;
+    }
+    case 'place_unit': {
+      const letter = UNIT_LETTERS[action.unitType];
+      return `${action.player === 'player' ? letter : letter.toLowerCase()}@${squareName(action.x, action.y)}`;
+    }
+    case 'toggle_support': {
+      const supports = action.player === 'player' ? state.playerSupport : state.computerSupport;
+      const removing = supports.some(s => s.type === action.lineType && s.index === action.index);
+      return `${action.player === 'player' ? 'S' : 's'}${removing ? '-' : '+'}${action.lineType === 'row' ? 'r' : 'c'}${action.index}`;
+    }
+    case 'finish_army':
+    case 'finish_placement':
+    case 'finish_setup':
+      return '*';
+    case 'move': {
+      const unit = state.units.find(u => u.id === action.unitId)!;
+      const dist = Math.abs(unit.x - action.x) + Math.abs(unit.y - action.y);
+      return `${squareName(unit.x, unit.y)}${dist === 2 ? '=' : '-'}${squareName(action.x, action.y)}`;
+    }
+    case 'rotate':
+      return `${unitSquare(state, action.unitId)}>${DIRECTION_LETTERS[action.direction]}`;
+    case 'attack': {
+      const attackers = state.units.filter(u => action.attackerIds.includes(u.id));
+      const defender = state.units.find(u => u.id === action.targetId)!;
+      const side = attackers[0].player;
+      const result = resolveCombat(
+        attackers, defender,
+        side === 'player' ? state.playerSupport : state.computerSupport,
+        side === 'player' ? state.computerSupport : state.playerSupport,
+        state.rules,
+        action.chargeIds
+      );
+      const outcome = result.winner === 'attacker' ? 'W' : result.winner === 'defender' ? 'L' : 'T';
+      const from = attackers.map(a => `${squareName(a.x, a.y)}${action.chargeIds?.includes(a.id) ? '!' : ''}`).join('+');
+      return `${from}x${squareName(defender.x, defender.y)}[${result.atkTotal}:${result.defTotal}]${outcome}`;
+    }
+    case 'end_turn':
+      return '/';
+    case 'resign':
+      return action.player === 'player' ? 'Resign' : 'resign';
+  }
+};
+
+// Parses one notation token into an engine action, resolving squares against the given state.
+export const parseNotation = (state: GameState, text: string): GameAction => {
+  const token = text.trim();
+
+  if (token === '/') return { type: 'end_turn' };
+  if (token === 'Resign' || token === 'resign') return { type: 'resign', player: token === 'Resign' ? 'player' : 'computer' };
+  if (token === '*') {
+    if (state.turn === 'setup_army') return { type: 'finish_army' };
+    return state.turn === 'setup_placement' ? { type: 'finish_placement' } : { type: 'finish_setup' };
+  }
+
+  let match = /^\$((?:[IAC]\d)+|(?:[iac]\d)+)$/.exec(token);
+  if (match) {
+    const player: Player = match[1] === match[1].toUpperCase() ? 'player' : 'computer';
+    const army = { [UnitType.INFANTRY]: 0, [UnitType.ARCHER]: 0, [UnitType.CAVALRY]: 0 };
+    for (const [, letter, count] of match[1].matchAll(/([IACiac])(\d)/g)) {
+      const unitType = (Object.keys(UNIT_LETTERS) as UnitType[]).find(t => UNIT_LETTERS[t] === letter.toUpperCase())!;
+      army[unitType] = parseInt(count, 10);
+    }
+    return { type: 'set_army', player, army };
+  }
+
+  match = /^([IACiac])@([a-z]\d{1,2})$/.exec(token);
+  if (match) {
+    const letter = match[1];
+    const unitType = (Object.keys(UNIT_LETTERS) as UnitType[]).find(t => UNIT_LETTERS[t] === letter.toUpperCase())!;
+    const player: Player = letter === letter.toUpperCase() ? 'player' : 'computer';
+    const { x, y } = parseSquare(match[2]);
+    return { type: 'place_unit', player, unitType, x, y };
+  }
+
+  match = /^([Ss])([+-])([rc])(\d{1,2})$/.exec(token);
+  if (match) {
+    return {
+      type: 'toggle_support',
+      player: match[1] === 'S' ? 'player' : 'computer',
+      lineType: match[3] === 'r' ? 'row' : 'col',
+      index: parseInt(match[4], 10)
+    };
+  }
+
+  match = /^([a-z]\d{1,2})[-=]([a-z]\d{1,2})$/.exec(token);
+  if (match) {
+    const unit = unitAtSquare(state, match[1]);
+    const { x, y } = parseSquare(match[2]);
+    return { type: 'move', unitId: unit.id, x, y };
+  }
+
+  match = /^([a-z]\d{1,2})>([NESW])$/.exec(token);
+  if (match) {
+    const unit = unitAtSquare(state, match[1]);
+    return { type: 'rotate', unitId: unit.id, direction: DIRECTION_LETTERS.indexOf(match[2]) as Direction };
+  }
+
+  match = /^([a-z]\d{1,2}!?(?:\+[a-z]\d{1,2}!?)*)x([a-z]\d{1,2})(?:\[\d+:\d+\][WLT])?$/.exec(token);
+  if (match) {
+    const squares = match[1].split('+');
+    const attackerIds = squares.map(sq => unitAtSquare(state, sq.replace('!', '')).id);
+    const chargeIds = attackerIds.filter((_, i) => squares[i].endsWith('!'));
+    const target = unitAtSquare(state, match[2]);
+    return { type: 'attack', targetId: target.id, attackerIds, chargeIds };
+  }
+
+  throw new Error(`Unrecognised notation "${token}".`);
+};
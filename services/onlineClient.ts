@@ -0,0 +1,111 @@
+import { ClientMessage, ServerMessage, Player } from '../types';
+
+// Browser side of the online mode: a WebSocket to server/relay.ts that
+// reconnects on its own and resumes the room with the stored seat token.
+
+const SESSION_KEY = 'skrimish7x7.onlineSession';
+const RECONNECT_DELAY_MS = 2000;
+
+export interface OnlineSession {
+  url: string;
+  roomId: string;
+  token: string;
+  seat: Player;
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface OnlineHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onStatus: (status: ConnectionStatus) => void;
+}
+
+export interface OnlineClient {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+export const getDefaultRelayUrl = (): string =>
+  `ws://${typeof location !== 'undefined' && location.hostname ? location.hostname : 'localhost'}:8787`;
+
+export const loadSession = (): OnlineSession | null => {
+  try {
+    const json = localStorage.getItem(SESSION_KEY);
+    return json ? JSON.parse(json) as OnlineSession : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: OnlineSession | null) => {
+  try {
+    if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Storage unavailable; reconnection still works until the page is closed
+  }
+};
+
+// Opens a connection. `initial` is sent once connected (create/join); after a dropped
+// connection the client rejoins with the session it received from the server.
+export const createOnlineClient = (url: string, initial: ClientMessage, handlers: OnlineHandlers): OnlineClient => {
+  let socket: WebSocket | null = null;
+  let session: OnlineSession | null = initial.type === 'rejoin' ? loadSession() : null;
+  let closedByUser = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  const queue: ClientMessage[] = [];
+
+  const connect = (first: boolean) => {
+    handlers.onStatus(first ? 'connecting' : 'reconnecting');
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      handlers.onStatus('connected');
+      const hello: ClientMessage = session
+        ? { type: 'rejoin', roomId: session.roomId, token: session.token }
+        : initial;
+      socket!.send(JSON.stringify(hello));
+      while (queue.length > 0) socket!.send(JSON.stringify(queue.shift()));
+    };
+
+    socket.onmessage = (event) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'joined') {
+        session = { url, roomId: message.roomId, token: message.token, seat: message.seat };
+        saveSession(session);
+      }
+      handlers.onMessage(message);
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      if (closedByUser) {
+        handlers.onStatus('closed');
+        return;
+      }
+      // Keep trying; the relay keeps the room so the game resumes where it stopped
+      handlers.onStatus('reconnecting');
+      reconnectTimer = setTimeout(() => connect(false), RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect(true);
+
+  return {
+    send: (message) => {
+      if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      else queue.push(message);
+    },
+    close: () => {
+      closedByUser = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      saveSession(null);
+    }
+  };
+};
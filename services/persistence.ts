@@ -0,0 +1,259 @@
+import { GameState, AIAction, UnitType, Direction, SupportLine, DIFFICULTIES, GameMode, GameAction, EndReason, UnitActionKind } from '../types';
+import { createEmptyKnowledge } from './knowledge';
+import { DEFAULT_ARMY_BUDGET, GRID_SIZES } from './gameLogic';
+import { RULE_SETS } from './rules';
+import { AI_PERSONALITIES, DEFAULT_PERSONALITY, validatePersonality } from './personalities';
+
+// Save format for localStorage auto-save and exported JSON files.
+// Bump SAVE_VERSION whenever GameState gains or changes fields and register a
+// migration from the previous version in MIGRATIONS.
+export const SAVE_VERSION = 11;
+
+const STORAGE_KEY = 'skrimish7x7.savedGame';
+
+export interface SavedGame {
+  version: number;
+  savedAt: string;
+  state: GameState;
+  aiPlan: AIAction[] | null; // Computer plan computed but not yet executed
+}
+
+// MIGRATIONS[n] upgrades raw save data from version n to version n + 1.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // v2: game record and turn counter. Earlier games cannot be reconstructed, so the record starts empty.
+  1: (data) => ({
+    ...data,
+    state: { ...data.state, turnNumber: data.state.turn === 'setup_placement' || data.state.turn === 'setup_support' ? 0 : 1, record: [] }
+  }),
+  // v3: game mode; all earlier games were played against the computer
+  2: (data) => ({ ...data, state: { ...data.state, mode: 'vs_computer' } }),
+  // v4: the support reveal toggle became sandbox mode; nothing has been deduced yet
+  3: (data) => {
+    const { showComputerSupport, ...state } = data.state;
+    return {
+      ...data,
+      state: { ...state, sandbox: !!showComputerSupport, knowledge: { player: createEmptyKnowledge(), computer: createEmptyKnowledge() } }
+    };
+  },
+  // v5: army building; earlier games started from a fixed army, so their records no longer replay
+  4: (data) => ({ ...data, state: { ...data.state, armyBudget: DEFAULT_ARMY_BUDGET } }),
+  // v6: rule sets; older games were played with the app's own rules
+  5: (data) => ({ ...data, state: { ...data.state, rules: RULE_SETS.app } }),
+  // v7: draws and resignation; every earlier finished game ended by elimination
+  6: (data) => ({
+    ...data,
+    state: { ...data.state, endReason: data.state.winner ? 'elimination' : null, passiveTurns: 0 }
+  }),
+  // v8: per-unit action sequence; the order of earlier actions is unknown, so rebuild it
+  // from the spent moves, rotation and attack
+  7: (data) => {
+    const toActions = ({ hasRotated, ...u }: any) => ({
+      ...u,
+      actions: [
+        ...Array(Math.max(0, u.maxMoves - u.movesLeft)).fill('move'),
+        ...(hasRotated ? ['rotate'] : []),
+        ...(u.attacksLeft === 0 ? ['attack'] : [])
+      ]
+    });
+    return {
+      ...data,
+      state: {
+        ...data.state,
+        units: data.state.units.map(toActions),
+        undoStack: data.state.undoStack.map((e: any) => ({ ...e, units: e.units.map(toActions) }))
+      }
+    };
+  },
+  // v9: the cavalry charge became an explicit choice; earlier records counted it automatically
+  // and may no longer replay exactly
+  8: (data) => {
+    const { chargeSpendsMove, ...rules } = data.state.rules;
+    return { ...data, state: { ...data.state, rules, pendingAttack: null } };
+  },
+  // v10: computer personalities; earlier games played with the Balanced weights
+  9: (data) => ({ ...data, state: { ...data.state, personality: AI_PERSONALITIES[DEFAULT_PERSONALITY] } }),
+  // v11: games loaded from a text position; every earlier game started with army building
+  10: (data) => ({ ...data, state: { ...data.state, startPosition: null } }),
+};
+
+const MODES: GameMode[] = ['vs_computer', 'hotseat', 'online'];
+const TURNS: GameState['turn'][] = ['player', 'computer', 'setup_army', 'setup_placement', 'setup_support', 'game_over'];
+const UNIT_TYPES = Object.values(UnitType);
+const ACTION_TYPES: GameAction['type'][] = [
+  'set_army', 'finish_army', 'place_unit', 'finish_placement', 'toggle_support', 'finish_setup', 'move', 'rotate', 'attack', 'end_turn', 'resign'
+];
+const END_REASONS: EndReason[] = ['elimination', 'resignation', 'mutual_pass'];
+const UNIT_ACTION_KINDS: UnitActionKind[] = ['move', 'rotate', 'attack'];
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+const isPlayer = (v: unknown) => v === 'player' || v === 'computer';
+
+const validateUnit = (u: unknown, i: number): string | null => {
+  if (!isObject(u)) return `units[${i}] is not an object`;
+  if (typeof u.id !== 'string') return `units[${i}].id must be a string`;
+  if (!UNIT_TYPES.includes(u.type)) return `units[${i}].type is unknown`;
+  if (!isPlayer(u.player)) return `units[${i}].player is invalid`;
+  for (const key of ['x', 'y', 'movesLeft', 'attacksLeft', 'maxMoves', 'hp']) {
+    if (!isInt(u[key])) return `units[${i}].${key} must be an integer`;
+  }
+  if (![Direction.NORTH, Direction.EAST, Direction.SOUTH, Direction.WEST].includes(u.rotation)) return `units[${i}].rotation is invalid`;
+  if (!Array.isArray(u.actions) || u.actions.some((a: unknown) => !UNIT_ACTION_KINDS.includes(a as UnitActionKind))) return `units[${i}].actions is invalid`;
+  return null;
+};
+
+const validateSupport = (s: unknown, field: string): string | null => {
+  if (!isObject(s)) return `${field} entry is not an object`;
+  if (!isPlayer(s.player) || (s.type !== 'row' && s.type !== 'col') || !isInt(s.index)) return `${field} entry is invalid`;
+  return null;
+};
+
+const validateState = (state: unknown): string | null => {
+  if (!isObject(state)) return "state is missing";
+  if (!GRID_SIZES.includes(state.gridSize)) return "gridSize is not a supported board size";
+  if (!DIFFICULTIES.includes(state.difficulty)) return "difficulty is unknown";
+  if (!MODES.includes(state.mode)) return "mode is unknown";
+  if (!TURNS.includes(state.turn)) return "turn is unknown";
+  if (state.winner !== null && state.winner !== 'draw' && !isPlayer(state.winner)) return "winner is invalid";
+  if (state.endReason !== null && !END_REASONS.includes(state.endReason)) return "endReason is unknown";
+  if (!isInt(state.passiveTurns)) return "passiveTurns must be an integer";
+  if (!Array.isArray(state.units)) return "units must be an array";
+  for (let i = 0; i < state.units.length; i++) {
+    const error = validateUnit(state.units[i], i);
+    if (error) return error;
+  }
+  for (const field of ['playerSupport', 'computerSupport']) {
+    if (!Array.isArray(state[field])) return `${field} must be an array`;
+    for (const s of state[field] as SupportLine[]) {
+      const error = validateSupport(s, field);
+      if (error) return error;
+    }
+  }
+  if (typeof state.sandbox !== 'boolean') return "sandbox must be a boolean";
+  if (!isObject(state.knowledge)) return "knowledge is missing";
+  for (const side of ['player', 'computer']) {
+    const k = state.knowledge[side];
+    if (!isObject(k) || !Array.isArray(k.observations) || !Array.isArray(k.deduced) || !Array.isArray(k.excluded)) return `knowledge.${side} is invalid`;
+    if (k.observations.some((o: unknown) => !isObject(o) || !isInt(o.x) || !isInt(o.y) || !isInt(o.bonus))) return `knowledge.${side} has invalid observations`;
+    for (const s of [...k.deduced, ...k.excluded]) {
+      const error = validateSupport(s, `knowledge.${side}`);
+      if (error) return error;
+    }
+  }
+  if (!Array.isArray(state.logs) || state.logs.some((l: unknown) => typeof l !== 'string')) return "logs must be a list of strings";
+  if (!isInt(state.armyBudget)) return "armyBudget must be an integer";
+  if (!isObject(state.rules) || !Object.keys(RULE_SETS).includes(state.rules.id) || typeof state.rules.name !== 'string') return "rules are missing";
+  if (!isInt(state.rules.maxSupports) || state.rules.maxSupports < 0) return "rules.maxSupports must be an integer";
+  for (const key of ['adjacentSupports', 'archerFlankBonus', 'archerDiagonalShot', 'cavalryDoubleStep', 'chargeBonus']) {
+    if (typeof state.rules[key] !== 'boolean') return `rules.${key} must be a boolean`;
+  }
+  const personalityError = validatePersonality(state.personality);
+  if (personalityError) return personalityError;
+  if (!isObject(state.reserves) || !isObject(state.reserves.player) || !isObject(state.reserves.computer)) return "reserves are missing";
+  if (!Array.isArray(state.undoStack) || !Array.isArray(state.redoStack)) return "undo history is missing";
+  if (!isInt(state.turnNumber)) return "turnNumber must be an integer";
+  if (!Array.isArray(state.record) || state.record.some((e: unknown) => !isObject(e) || typeof e.notation !== 'string' || !isInt(e.turn))) {
+    return "game record is invalid";
+  }
+  if (state.startPosition !== null && typeof state.startPosition !== 'string') return "startPosition must be a string or null";
+  return null;
+};
+
+const validateAiPlan = (plan: unknown): string | null => {
+  if (plan === null) return null;
+  if (!Array.isArray(plan)) return "aiPlan must be an array or null";
+  const valid = plan.every(a => isObject(a) && typeof a.unitId === 'string' && ['move', 'rotate', 'attack', 'end_turn'].includes(a.actionType));
+  return valid ? null : "aiPlan contains invalid actions";
+};
+
+export const serializeGame = (state: GameState, aiPlan: AIAction[] | null): string => {
+  const saved: SavedGame = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    state,
+    aiPlan
+  };
+  return JSON.stringify(saved);
+};
+
+// Validates raw save data (parsed JSON), migrating older versions. Throws with a readable reason.
+export const parseSavedGame = (raw: unknown): SavedGame => {
+  if (!isObject(raw)) throw new Error("Save file is not a JSON object.");
+  if (!isInt(raw.version)) throw new Error("Save file has no version.");
+  if (raw.version > SAVE_VERSION) throw new Error(`Save file version ${raw.version} is newer than this app supports (${SAVE_VERSION}).`);
+
+  let data: any = raw;
+  while (data.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[data.version];
+    if (!migrate) throw new Error(`No migration from save version ${data.version}.`);
+    data = { ...migrate(data), version: data.version + 1 };
+  }
+
+  const stateError = validateState(data.state);
+  if (stateError) throw new Error(`Invalid save: ${stateError}.`);
+  const planError = validateAiPlan(data.aiPlan ?? null);
+  if (planError) throw new Error(`Invalid save: ${planError}.`);
+  if (data.state.undoStack.some((e: any) => !isObject(e) || !ACTION_TYPES.includes(e.action?.type) || !Array.isArray(e.units))) {
+    throw new Error("Invalid save: undo history is corrupted.");
+  }
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    // Animation state is transient and never restored
+    state: { ...data.state, combatState: null } as GameState,
+    aiPlan: data.aiPlan ?? null
+  };
+};
+
+// --- localStorage auto-save ---
+
+export const saveToStorage = (state: GameState, aiPlan: AIAction[] | null) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeGame(state, aiPlan));
+  } catch (error) {
+    console.warn("Could not save game:", error);
+  }
+};
+
+export const loadFromStorage = (): SavedGame | null => {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    if (!json) return null;
+    return parseSavedGame(JSON.parse(json));
+  } catch (error) {
+    console.warn("Discarding unreadable saved game:", error);
+    return null;
+  }
+};
+
+export const clearStorage = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable (private mode); nothing to clear
+  }
+};
+
+// --- JSON file export / import ---
+
+export const exportToFile = (state: GameState, aiPlan: AIAction[] | null) => {
+  const blob = new Blob([serializeGame(state, aiPlan)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `skrimish-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const importFromFile = async (file: File): Promise<SavedGame> => {
+  const text = await file.text();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  return parseSavedGame(raw);
+};
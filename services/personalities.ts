@@ -0,0 +1,126 @@
+import { AIPersonality, AIWeights, SupportStyle, UnitType } from '../types';
+
+// Computer playing styles, selectable next to the difficulty. The difficulty decides how
+// hard the computer searches; the personality decides what it values while doing so.
+// Custom profiles can be imported as JSON (see parsePersonality).
+
+const BALANCED_WEIGHTS: AIWeights = {
+  killUnit: 100,
+  unitValues: {
+    [UnitType.CAVALRY]: 5,
+    [UnitType.ARCHER]: 4,
+    [UnitType.INFANTRY]: 2
+  },
+  survival: 50,
+  supportBonus: 10,
+  dangerPenalty: -20,
+  flankExposed: -6,
+};
+
+export const AI_PERSONALITIES: Record<string, AIPersonality> = {
+  balanced: {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'Weighs kills against losses and supports the centre.',
+    weights: BALANCED_WEIGHTS,
+    supportStyle: 'center',
+    frontLine: [],
+  },
+  aggressive: {
+    id: 'aggressive',
+    name: 'Aggressive',
+    description: 'Chases kills and accepts losses; supports the ground toward you.',
+    weights: { ...BALANCED_WEIGHTS, killUnit: 160, survival: 30, dangerPenalty: -10, flankExposed: -2 },
+    supportStyle: 'forward',
+    frontLine: [UnitType.CAVALRY, UnitType.INFANTRY],
+  },
+  turtle: {
+    id: 'turtle',
+    name: 'Turtle',
+    description: 'Keeps its units alive and its flanks covered; supports its own rows.',
+    weights: { ...BALANCED_WEIGHTS, killUnit: 70, survival: 90, supportBonus: 20, dangerPenalty: -40, flankExposed: -12 },
+    supportStyle: 'home',
+    frontLine: [UnitType.INFANTRY, UnitType.CAVALRY],
+  },
+  skirmisher: {
+    id: 'skirmisher',
+    name: 'Skirmisher',
+    description: 'Values its archers most and screens them behind infantry.',
+    weights: {
+      ...BALANCED_WEIGHTS,
+      unitValues: { ...BALANCED_WEIGHTS.unitValues, [UnitType.ARCHER]: 7 },
+      dangerPenalty: -50,
+    },
+    supportStyle: 'center',
+    frontLine: [UnitType.INFANTRY, UnitType.CAVALRY],
+  },
+  raider: {
+    id: 'raider',
+    name: 'Cavalry Raider',
+    description: 'Leads with cavalry and hunts exposed units.',
+    weights: {
+      ...BALANCED_WEIGHTS,
+      unitValues: { ...BALANCED_WEIGHTS.unitValues, [UnitType.CAVALRY]: 7 },
+      killUnit: 130,
+      flankExposed: -4,
+    },
+    supportStyle: 'forward',
+    frontLine: [UnitType.CAVALRY],
+  },
+};
+
+export const DEFAULT_PERSONALITY = 'balanced';
+
+const SUPPORT_STYLES: SupportStyle[] = ['center', 'forward', 'home'];
+const WEIGHT_KEYS: (keyof Omit<AIWeights, 'unitValues'>)[] = ['killUnit', 'survival', 'supportBonus', 'dangerPenalty', 'flankExposed'];
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Returns what is wrong with a personality, null if it is complete and valid
+export const validatePersonality = (p: unknown): string | null => {
+  if (!isObject(p)) return "personality is not an object";
+  if (typeof p.id !== 'string' || typeof p.name !== 'string' || typeof p.description !== 'string') return "personality needs an id, a name and a description";
+  if (!isObject(p.weights)) return "personality.weights is missing";
+  for (const key of WEIGHT_KEYS) {
+    if (!isNumber(p.weights[key])) return `personality.weights.${key} must be a number`;
+  }
+  if (!isObject(p.weights.unitValues) || Object.values(UnitType).some(t => !isNumber(p.weights.unitValues[t]))) {
+    return "personality.weights.unitValues needs a number per unit type";
+  }
+  if (!SUPPORT_STYLES.includes(p.supportStyle)) return `personality.supportStyle must be one of ${SUPPORT_STYLES.join(', ')}`;
+  if (!Array.isArray(p.frontLine) || p.frontLine.some((t: unknown) => !Object.values(UnitType).includes(t as UnitType))) {
+    return "personality.frontLine must be a list of unit types";
+  }
+  return null;
+};
+
+// Reads a custom profile. Anything left out is taken from the Balanced preset, so a file
+// may hold just the weights being experimented with, e.g. {"name": "Bold", "weights": {"killUnit": 200}}.
+export const parsePersonality = (json: string): AIPersonality => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Not a valid JSON file.");
+  }
+  if (!isObject(raw)) throw new Error("The profile must be a JSON object.");
+
+  const base = AI_PERSONALITIES[DEFAULT_PERSONALITY];
+  const weights = isObject(raw.weights) ? raw.weights : {};
+  const personality = {
+    id: 'custom',
+    name: typeof raw.name === 'string' ? raw.name : 'Custom',
+    description: typeof raw.description === 'string' ? raw.description : 'Imported profile.',
+    weights: {
+      ...base.weights,
+      ...weights,
+      unitValues: { ...base.weights.unitValues, ...(isObject(weights.unitValues) ? weights.unitValues : {}) }
+    },
+    supportStyle: raw.supportStyle ?? base.supportStyle,
+    frontLine: raw.frontLine ?? base.frontLine
+  };
+  const error = validatePersonality(personality);
+  if (error) throw new Error(`Invalid profile: ${error}.`);
+  return personality as AIPersonality;
+};
@@ -0,0 +1,160 @@
+import { DIFFICULTIES, Difficulty, Direction, GameOptions, GameState, Player, RuleSetId, SupportLine, Unit, UnitActionKind, UnitType } from '../types';
+import { GRID_SIZES, getUnitAt, isValidSupportPlacement } from './gameLogic';
+import { createInitialState, createUnit } from './engine';
+import { RULE_SETS } from './rules';
+
+// Text form of a battle position in the spirit of chess FEN, for bug reports and AI test cases:
+//
+//   2asas3/2isiscs2/7/7/3Cn[10m]3/2InIn3/3AnAn2 b r6,c4 r2,c5 hard app 3 0
+//
+//   1. Board          rows from the top (row 1) down, '/' between rows, digits count empty squares.
+//                     A unit is its letter (I/A/C; uppercase = player/Blue, lowercase = computer/Red)
+//                     and its facing n/e/s/w. A unit that has acted this turn adds
+//                     [moves left, attacks left, actions taken], e.g. Cn[10m] = cavalry facing north
+//                     with 1 move and no attack left, having moved once (m/r/a = move/rotate/attack).
+//   2. To move        b (Blue) or r (Red)
+//   3. Blue's lines   support lines as r<row> or c<column>, comma separated, '-' for none
+//   4. Red's lines    the same
+//   5. Difficulty
+//   6. Rule set       optional, default app
+//   7. Turn number    optional, default 1
+//   8. Passive turns  optional, default 0 (rule 16 draw counter)
+//
+// Units get ids in reading order (b1, b2, ... r1, r2, ...), so a position always loads the same way.
+// What each side has deduced about the other's support lines is not part of a position.
+
+const UNIT_LETTERS: Record<UnitType, string> = {
+  [UnitType.INFANTRY]: 'I',
+  [UnitType.ARCHER]: 'A',
+  [UnitType.CAVALRY]: 'C',
+};
+const FACING_LETTERS = ['n', 'e', 's', 'w'];
+const ACTION_LETTERS: Record<UnitActionKind, string> = { move: 'm', rotate: 'r', attack: 'a' };
+
+const hasActed = (unit: Unit): boolean =>
+  unit.actions.length > 0 || unit.movesLeft !== unit.maxMoves || unit.attacksLeft !== 1;
+
+const formatUnit = (unit: Unit): string => {
+  const letter = unit.player === 'player' ? UNIT_LETTERS[unit.type] : UNIT_LETTERS[unit.type].toLowerCase();
+  const acted = hasActed(unit) ? `[${unit.movesLeft}${unit.attacksLeft}${unit.actions.map(a => ACTION_LETTERS[a]).join('')}]` : '';
+  return `${letter}${FACING_LETTERS[unit.rotation]}${acted}`;
+};
+
+const formatLines = (lines: SupportLine[]): string =>
+  lines.length ? lines.map(l => `${l.type === 'row' ? 'r' : 'c'}${l.index}`).join(',') : '-';
+
+export const serializePosition = (state: GameState): string => {
+  if (state.turn !== 'player' && state.turn !== 'computer') throw new Error("Only positions during the battle can be written down.");
+  const rows: string[] = [];
+  for (let y = 1; y <= state.gridSize; y++) {
+    let row = '';
+    let empty = 0;
+    for (let x = 1; x <= state.gridSize; x++) {
+      const unit = getUnitAt(state.units, x, y);
+      if (!unit) {
+        empty++;
+        continue;
+      }
+      row += `${empty || ''}${formatUnit(unit)}`;
+      empty = 0;
+    }
+    rows.push(`${row}${empty || ''}`);
+  }
+  return [
+    rows.join('/'),
+    state.turn === 'player' ? 'b' : 'r',
+    formatLines(state.playerSupport),
+    formatLines(state.computerSupport),
+    state.difficulty,
+    state.rules.id,
+    state.turnNumber,
+    state.passiveTurns
+  ].join(' ');
+};
+
+const UNIT_TOKEN = /(\d+)|([IACiac])([nesw])(?:\[([0-2])([01])([mra]*)\])?/y;
+
+// The units of one board row, and how many squares the row covers
+const parseRow = (text: string, y: number): { units: Unit[], width: number } => {
+  const units: Unit[] = [];
+  let x = 1;
+  UNIT_TOKEN.lastIndex = 0;
+  while (UNIT_TOKEN.lastIndex < text.length) {
+    const at = UNIT_TOKEN.lastIndex;
+    const match = UNIT_TOKEN.exec(text);
+    if (!match) throw new Error(`Row ${y}: cannot read "${text.slice(at)}".`);
+    if (match[1]) {
+      x += parseInt(match[1], 10);
+      continue;
+    }
+    const [, , letter, facing, moves, attacks, actions] = match;
+    const type = (Object.keys(UNIT_LETTERS) as UnitType[]).find(t => UNIT_LETTERS[t] === letter.toUpperCase())!;
+    const unit = createUnit(type, letter === letter.toUpperCase() ? 'player' : 'computer', x, y);
+    unit.rotation = FACING_LETTERS.indexOf(facing) as Direction;
+    if (moves !== undefined) {
+      unit.movesLeft = parseInt(moves, 10);
+      unit.attacksLeft = parseInt(attacks, 10);
+      unit.actions = [...actions].map(a => (Object.keys(ACTION_LETTERS) as UnitActionKind[]).find(k => ACTION_LETTERS[k] === a)!);
+      if (unit.movesLeft > unit.maxMoves) throw new Error(`Row ${y}: a ${type} has at most ${unit.maxMoves} moves.`);
+    }
+    units.push(unit);
+    x++;
+  }
+  return { units, width: x - 1 };
+};
+
+const parseLines = (text: string, player: Player, gridSize: number, state: GameState): SupportLine[] => {
+  if (text === '-') return [];
+  const lines: SupportLine[] = [];
+  text.split(',').forEach(token => {
+    const match = /^([rc])(\d{1,2})$/.exec(token);
+    if (!match) throw new Error(`Invalid support line "${token}".`);
+    const line: SupportLine = { player, type: match[1] === 'r' ? 'row' : 'col', index: parseInt(match[2], 10) };
+    if (line.index < 1 || line.index > gridSize) throw new Error(`Support line ${token} is off the board.`);
+    if (!isValidSupportPlacement(lines, line, state.rules)) throw new Error(`Support line ${token} is not allowed next to the others (${state.rules.name}).`);
+    lines.push(line);
+  });
+  return lines;
+};
+
+// Builds a fresh game at the written position. Options not written down (army budget,
+// personality) are taken from `options`.
+export const parsePosition = (text: string, options: Partial<GameOptions> = {}): GameState => {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length < 5 || fields.length > 8) throw new Error("A position has 5 to 8 fields: board, side to move, Blue's lines, Red's lines, difficulty[, rules, turn, passive turns].");
+  const [board, side, blueLines, redLines, difficulty, ruleSet = 'app', turn = '1', passive = '0'] = fields;
+
+  const rows = board.split('/');
+  const gridSize = rows.length;
+  if (!GRID_SIZES.includes(gridSize)) throw new Error(`The board has ${gridSize} rows; supported sizes are ${GRID_SIZES.join(', ')}.`);
+  if (side !== 'b' && side !== 'r') throw new Error(`Side to move must be b or r, not "${side}".`);
+  if (!DIFFICULTIES.includes(difficulty as Difficulty)) throw new Error(`Unknown difficulty "${difficulty}".`);
+  const rules = RULE_SETS[ruleSet as RuleSetId];
+  if (!rules) throw new Error(`Unknown rule set "${ruleSet}".`);
+  if (!/^\d+$/.test(turn) || !/^\d+$/.test(passive) || parseInt(turn, 10) < 1) throw new Error("Turn number and passive turns must be whole numbers.");
+
+  const units = rows.flatMap((row, i) => {
+    const parsed = parseRow(row, i + 1);
+    if (parsed.width !== gridSize) throw new Error(`Row ${i + 1} has ${parsed.width} squares, expected ${gridSize}.`);
+    return parsed.units;
+  });
+  const sides: Player[] = ['player', 'computer'];
+  sides.forEach(player => {
+    const own = units.filter(u => u.player === player);
+    if (own.length === 0) throw new Error(`${player === 'player' ? 'Blue' : 'Red'} has no units.`);
+    own.forEach((u, i) => { u.id = `${player === 'player' ? 'b' : 'r'}${i + 1}`; });
+  });
+
+  const state = createInitialState(difficulty as Difficulty, 'vs_computer', { ...options, gridSize, rules });
+  return {
+    ...state,
+    units,
+    playerSupport: parseLines(blueLines, 'player', gridSize, state),
+    computerSupport: parseLines(redLines, 'computer', gridSize, state),
+    turn: side === 'b' ? 'player' : 'computer',
+    turnNumber: parseInt(turn, 10),
+    passiveTurns: parseInt(passive, 10),
+    startPosition: fields.join(' ')
+  };
+};
+
@@ -0,0 +1,39 @@
+import { RuleSet, RuleSetId } from '../types';
+
+// Rule presets selectable at game start. 'app' keeps the behaviour this app always had;
+// 'polish' follows the written rules (RULES_TEXT) where the app used to differ.
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+  app: {
+    id: 'app',
+    name: 'Current app behaviour',
+    maxSupports: 3,
+    adjacentSupports: true,
+    archerFlankBonus: false,
+    archerDiagonalShot: true,
+    cavalryDoubleStep: true,
+    chargeBonus: true,
+  },
+  polish: {
+    id: 'polish',
+    name: 'Written Polish rules',
+    maxSupports: 3,
+    adjacentSupports: false, // Rule 5
+    archerFlankBonus: false, // Rule 14
+    archerDiagonalShot: true, // Rule 14
+    cavalryDoubleStep: false, // Rule 10: a move is one square
+    chargeBonus: true, // Rule 13
+  },
+};
+
+export const DEFAULT_RULE_SET: RuleSetId = 'app';
+
+// One line per rule, for the rules modal
+export const describeRuleSet = (rules: RuleSet): string[] => [
+  `Support tokens per side: ${rules.maxSupports}`,
+  rules.adjacentSupports ? 'Parallel support lines may be adjacent' : 'Parallel support lines may not be adjacent',
+  rules.archerFlankBonus ? 'Archers get the flank bonus' : 'Archers get no flank bonus',
+  rules.archerDiagonalShot ? 'Archers may shoot diagonally' : 'Archers shoot straight only',
+  rules.cavalryDoubleStep ? 'Cavalry may move two squares straight ahead at once' : 'Cavalry moves one square at a time',
+  rules.chargeBonus ? 'Cavalry may charge: +1 for its remaining moves' : 'No cavalry charge bonus',
+];
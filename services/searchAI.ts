@@ -0,0 +1,205 @@
+import { GameState, AIAction, AIProgressHandler, AIWeights, Unit, UnitType, Direction } from '../types';
+import { canAttack, canCharge, canRotate, getRotationForMove } from './gameLogic';
+import {
+  evaluateState, getUnitMaterial, getComputerCombatOdds, simulateAction, simulateMove, simulateRotate, getAttackOptions, getValidMoves, getOtherFacings, planJointAttack, getComputerMovesLocal
+} from './aiLogic';
+
+// Search strategy behind the 'expert' difficulty. Instead of fixing one unit at a time,
+// it keeps a beam of whole-turn plans, and scores each plan by what the player could
+// take back on the reply: units left where they can be flanked, archers within reach
+// of melee units. The search stops expanding once the time budget is spent.
+
+export const SEARCH_TIME_BUDGET_MS = 2000;
+export const SEARCH_TIME_BUDGETS = [500, 1000, 2000, 5000];
+
+const BEAM_WIDTH = 6;
+// The player will not always find the best reply
+const REPLY_WEIGHT = 0.8;
+
+interface Plan {
+  actions: AIAction[];
+  units: Unit[];
+  gained: number; // Score of the kills made so far
+  score: number; // gained + evaluation - expected reply losses
+  done: string[]; // Units that took part in a joint attack and sit out the rest of the search
+}
+
+interface Threat {
+  attackerIds: string[];
+  targetId: string;
+  loss: number; // Expected: what the target is worth times the chance the player wins
+}
+
+const getUnitLoss = (unit: Unit, weights: AIWeights): number =>
+  getUnitMaterial(unit, weights) + weights.killUnit * weights.unitValues[unit.type];
+
+// The player's best chance to win with these attackers, charging when it can
+const getPlayerWinOdds = (options: Unit[][], defender: Unit, gameState: GameState): number =>
+  Math.max(0, ...options.map(attackers => {
+    const chargeIds = attackers.filter(a => canCharge(a, gameState.rules)).map(a => a.id);
+    return getComputerCombatOdds(attackers, defender, gameState, chargeIds).attacker;
+  }));
+
+// Where an enemy unit could strike each computer unit from on its next turn: from where it
+// stands or after one move, turning to face the target when needed
+const getStrikePositions = (enemy: Unit, targets: Unit[], units: Unit[], gameState: GameState): Map<string, Unit[]> => {
+  const positions = new Map<string, Unit[]>();
+  const tryFrom = (placed: Unit) => {
+    const board = units.map(u => u.id === placed.id ? placed : u);
+    targets.forEach(target => {
+      let attacker: Unit | null = canAttack(placed, target, board, gameState.rules) ? placed : null;
+      if (!attacker && canRotate(placed)) {
+        const turned = { ...placed, rotation: getRotationForMove(placed, target.x, target.y), actions: [...placed.actions, 'rotate' as const] };
+        if (canAttack(turned, target, board, gameState.rules)) attacker = turned;
+      }
+      if (attacker) positions.set(target.id, [...(positions.get(target.id) ?? []), attacker]);
+    });
+  };
+
+  tryFrom(enemy);
+  getValidMoves(enemy, units, gameState).forEach(move => tryFrom(simulateMove(enemy, move.x, move.y)));
+  return positions;
+};
+
+// Estimated material the player takes back on the reply: every single or paired attack it
+// could win, then the most valuable ones that use each unit at most once
+const getReplyLoss = (units: Unit[], gameState: GameState): number => {
+  const enemies = units.filter(u => u.player === 'player');
+  const targets = units.filter(u => u.player === 'computer');
+  const reach = enemies.map(enemy => ({ enemy, positions: getStrikePositions(enemy, targets, units, gameState) }));
+
+  const threats: Threat[] = [];
+  targets.forEach(target => {
+    const strikers = reach.filter(r => r.positions.has(target.id));
+    strikers.forEach(r => {
+      const odds = getPlayerWinOdds(r.positions.get(target.id)!.map(p => [p]), target, gameState);
+      if (odds > 0) threats.push({ attackerIds: [r.enemy.id], targetId: target.id, loss: odds * getUnitLoss(target, gameState.personality.weights) });
+    });
+
+    // Pairs: two units attacking the target together from different squares
+    for (let i = 0; i < strikers.length; i++) {
+      for (let j = i + 1; j < strikers.length; j++) {
+        const pairs = strikers[i].positions.get(target.id)!.flatMap(a => strikers[j].positions.get(target.id)!
+          .filter(b => a.x !== b.x || a.y !== b.y)
+          .map(b => [a, b]));
+        const odds = getPlayerWinOdds(pairs, target, gameState);
+        if (odds > 0) threats.push({ attackerIds: [strikers[i].enemy.id, strikers[j].enemy.id], targetId: target.id, loss: odds * getUnitLoss(target, gameState.personality.weights) });
+      }
+    }
+  });
+
+  // Prefer the biggest losses, then the threats that tie up the fewest player units
+  threats.sort((a, b) => b.loss - a.loss || a.attackerIds.length - b.attackerIds.length);
+  const usedAttackers = new Set<string>();
+  const lostTargets = new Set<string>();
+  let loss = 0;
+  threats.forEach(t => {
+    if (lostTargets.has(t.targetId) || t.attackerIds.some(id => usedAttackers.has(id))) return;
+    t.attackerIds.forEach(id => usedAttackers.add(id));
+    lostTargets.add(t.targetId);
+    loss += t.loss;
+  });
+  return loss;
+};
+
+const scorePlan = (units: Unit[], gained: number, gameState: GameState): number =>
+  gained + evaluateState({ ...gameState, units }) - REPLY_WEIGHT * getReplyLoss(units, gameState);
+
+// Everything one unit might do this turn: attack (then reposition, for cavalry), move and
+// attack, move and turn (and attack), move twice, or turn in place (and attack)
+const getUnitSequences = (unit: Unit, units: Unit[], gameState: GameState): AIAction[][] => {
+  const sequences: AIAction[][] = [];
+  const attacksFrom = (placed: Unit, board: Unit[]): AIAction[] =>
+    board
+      .filter(e => e.player === 'player' && canAttack(placed, e, board, gameState.rules))
+      .flatMap(target => getAttackOptions(placed, target, gameState));
+  const moveTo = (x: number, y: number): AIAction => ({ unitId: unit.id, actionType: 'move', target: { x, y } });
+  const turnTo = (direction: Direction): AIAction => ({ unitId: unit.id, actionType: 'rotate', direction });
+
+  attacksFrom(unit, units).forEach(attack => {
+    sequences.push([attack]);
+    if (attack.chargeIds || unit.type !== UnitType.CAVALRY) return;
+    const after = simulateAction(units, attack, gameState).units;
+    const attacker = after.find(u => u.id === unit.id);
+    if (!attacker) return;
+    getValidMoves(attacker, after, gameState).forEach(move => sequences.push([attack, moveTo(move.x, move.y)]));
+  });
+
+  getValidMoves(unit, units, gameState).forEach(move => {
+    const moved = simulateMove(unit, move.x, move.y);
+    const board = units.map(u => u.id === unit.id ? moved : u);
+    const step = moveTo(move.x, move.y);
+    sequences.push([step]);
+    attacksFrom(moved, board).forEach(attack => sequences.push([step, attack]));
+    getOtherFacings(moved).forEach(d => {
+      const turned = simulateRotate(moved, d);
+      sequences.push([step, turnTo(d)]);
+      attacksFrom(turned, board.map(u => u.id === unit.id ? turned : u)).forEach(attack => sequences.push([step, turnTo(d), attack]));
+    });
+    getValidMoves(moved, board, gameState).forEach(next => sequences.push([step, moveTo(next.x, next.y)]));
+  });
+
+  getOtherFacings(unit).forEach(d => {
+    const turned = simulateRotate(unit, d);
+    sequences.push([turnTo(d)]);
+    attacksFrom(turned, units.map(u => u.id === unit.id ? turned : u)).forEach(attack => sequences.push([turnTo(d), attack]));
+  });
+  return sequences;
+};
+
+const applySequence = (plan: Plan, sequence: AIAction[], gameState: GameState): Plan => {
+  let units = plan.units;
+  let gained = plan.gained;
+  for (const act of sequence) {
+    const result = simulateAction(units, act, gameState);
+    units = result.units;
+    gained += result.score;
+  }
+  return { ...plan, actions: [...plan.actions, ...sequence], units, gained, score: scorePlan(units, gained, gameState) };
+};
+
+export const getComputerMovesSearch = (
+  gameState: GameState, timeBudgetMs: number = SEARCH_TIME_BUDGET_MS, onProgress?: AIProgressHandler
+): AIAction[] => {
+  const deadline = Date.now() + timeBudgetMs;
+  const start: Plan = { actions: [], units: gameState.units, gained: 0, score: 0, done: [] };
+  start.score = scorePlan(start.units, 0, gameState);
+
+  // Never do worse than the greedy planner by the same measure. Planned first, so its time
+  // comes out of the budget instead of running past the deadline.
+  const greedy = getComputerMovesLocal({ ...gameState, difficulty: 'hard' }).filter(a => a.actionType !== 'end_turn');
+  const greedyPlan = applySequence(start, greedy, gameState);
+
+  // Seed the beam with the plain start and with the gang-ups the medium/hard planner finds
+  const beam: Plan[] = [start];
+  let joint = start;
+  let steps = planJointAttack(joint.units, joint.done, gameState);
+  while (steps) {
+    const attackerIds = steps[steps.length - 1].attackerIds!;
+    joint = { ...applySequence(joint, steps, gameState), done: [...joint.done, ...attackerIds] };
+    beam.push(joint);
+    steps = planJointAttack(joint.units, joint.done, gameState);
+  }
+
+  let frontier = beam;
+  const unitIds = gameState.units.filter(u => u.player === 'computer').map(u => u.id).sort((a, b) => a.localeCompare(b));
+  for (const [index, unitId] of unitIds.entries()) {
+    if (Date.now() > deadline) break;
+    onProgress?.(index / unitIds.length, `Searching unit ${index + 1} of ${unitIds.length} (${frontier.length} plans kept)`);
+    // A plan that leaves this unit idle is always a candidate, so a cut-off level loses nothing
+    const candidates: Plan[] = [...frontier];
+    for (const plan of frontier) {
+      const unit = plan.units.find(u => u.id === unitId);
+      if (!unit || plan.done.includes(unitId)) continue;
+      for (const sequence of getUnitSequences(unit, plan.units, gameState)) {
+        if (Date.now() > deadline) break;
+        candidates.push(applySequence(plan, sequence, gameState));
+      }
+    }
+    frontier = candidates.sort((a, b) => b.score - a.score).slice(0, BEAM_WIDTH);
+  }
+
+  const best = frontier.reduce((a, b) => b.score > a.score ? b : a, greedyPlan);
+
+  return [...best.actions, { unitId: 'global', actionType: 'end_turn' }];
+};
@@ -1,6 +1,22 @@
 export type Player = 'player' | 'computer';
 
-export type Difficulty = 'random' | 'easy' | 'medium' | 'hard';
+export type Difficulty = 'random' | 'easy' | 'medium' | 'hard' | 'expert' | 'cheating' | 'llm';
+export const DIFFICULTIES: Difficulty[] = ['random', 'easy', 'medium', 'hard', 'expert', 'cheating', 'llm'];
+
+// Where the 'llm' difficulty sends its prompts (see services/llmService.ts)
+export type LLMProvider = 'gemini' | 'openai';
+
+export interface LLMConfig {
+  provider: LLMProvider;
+  baseUrl: string; // OpenAI-compatible API root, e.g. http://localhost:8080/v1 for llama.cpp or server/mockLLM.ts
+  model: string;
+  apiKey: string; // Empty: Gemini falls back to GEMINI_API_KEY, local servers need none
+}
+
+// vs_computer: the 'computer' side is played by the local AI.
+// hotseat: two humans share one device; 'player' is Blue (bottom), 'computer' is Red (top).
+// online: two humans on different machines, state is kept by the relay server (server/relay.ts).
+export type GameMode = 'vs_computer' | 'hotseat' | 'online';
 
 export enum UnitType {
   INFANTRY = 'Infantry',
@@ -25,37 +41,150 @@ export interface Unit {
   // State for the current turn
   movesLeft: number;
   attacksLeft: number;
-  hasRotated: boolean; // Tracking if rotation happened for rule checks
+  actions: UnitActionKind[]; // Actions taken this turn in order, one 'move' per square (rule 9)
   maxMoves: number;
   hp: number; // Basically 1 for this game, but good for structure
 }
 
+export type UnitActionKind = 'move' | 'rotate' | 'attack';
+
+export type RuleSetId = 'app' | 'polish';
+
+// Rule variations that differ between the written rules and house rules (see services/rules.ts)
+export interface RuleSet {
+  id: RuleSetId;
+  name: string;
+  maxSupports: number; // Support tokens per side (rule 5)
+  adjacentSupports: boolean; // Parallel support lines may be on neighbouring rows/columns
+  archerFlankBonus: boolean; // Archers get +1 when shooting at the side or rear
+  archerDiagonalShot: boolean; // Archers may shoot at a corner-touching square (rule 14)
+  cavalryDoubleStep: boolean; // Cavalry may move two squares straight ahead as one move
+  chargeBonus: boolean; // Cavalry attacking with a move left gets +1 (rule 13)
+}
+
+// Chosen when a game is created and fixed for its whole duration
+export interface GameOptions {
+  armyBudget: number;
+  gridSize: number;
+  rules: RuleSet;
+  personality: AIPersonality;
+}
+
+// Evaluation weights of the computer player (see evaluateState in services/aiLogic.ts)
+export interface AIWeights {
+  killUnit: number; // Times the value of the unit killed
+  unitValues: Record<UnitType, number>;
+  survival: number; // Per unit alive
+  supportBonus: number; // Per point of support bonus under own units
+  dangerPenalty: number; // Archer next to an enemy (counted twice)
+  flankExposed: number; // Per unit value point, side or rear open to an enemy that can reach it
+}
+
+// Where the computer puts its support lines: 'center' of the board, 'forward' toward the
+// player, or 'home' over its own deployment rows
+export type SupportStyle = 'center' | 'forward' | 'home';
+
+// A computer playing style: evaluation weights plus its setup preferences
+export interface AIPersonality {
+  id: string; // Preset id, or 'custom' for an imported profile
+  name: string;
+  description: string;
+  weights: AIWeights;
+  supportStyle: SupportStyle;
+  frontLine: UnitType[]; // Unit types pulled into the front deployment row, most wanted first
+}
+
 export interface SupportLine {
   player: Player;
   type: 'row' | 'col';
   index: number;
 }
 
+// Support bonus a side declared for its unit on a square during combat (rule 12)
+export interface SupportObservation {
+  x: number;
+  y: number;
+  bonus: number;
+}
+
+export interface SupportKnowledge {
+  observations: SupportObservation[]; // Declarations heard about the opponent's units
+  deduced: SupportLine[]; // Opponent lines that must exist given the observations
+  excluded: SupportLine[]; // Opponent lines that cannot exist
+}
+
 export interface PendingAttack {
   targetId: string; // The enemy being attacked
   attackerIds: string[]; // List of own units joining the attack
+  chargeIds: string[]; // Cavalry attackers that sacrifice a move for +1 (rule 13)
 }
 
 export interface GameState {
   gridSize: number;
   difficulty: Difficulty;
+  mode: GameMode;
   units: Unit[];
   playerSupport: SupportLine[];
   computerSupport: SupportLine[];
-  turn: Player | 'setup_placement' | 'setup_support' | 'game_over';
-  winner: Player | null;
+  turn: Player | 'setup_army' | 'setup_placement' | 'setup_support' | 'game_over';
+  winner: Player | 'draw' | null;
+  endReason: EndReason | null; // How the game ended (rule 16), null while it is running
+  passiveTurns: number; // Consecutive turns ended without any action, by either side
   selectedUnitId: string | null;
   logs: string[];
   combatState: { attackerIds: string[], defenderId: string } | null; // For animation
   pendingAttack: PendingAttack | null; // For planning phase
-  showComputerSupport: boolean;
+  sandbox: boolean; // Debug mode: every support line is visible to the human side(s)
+  knowledge: Record<Player, SupportKnowledge>; // What each side has learned about the opponent's support lines
+  armyBudget: number; // Points each side may spend in the army-building phase (rule 7)
+  rules: RuleSet;
+  personality: AIPersonality; // How the computer plays; only used against the computer
+  reserves: Record<Player, Record<UnitType, number>>; // Undeployed units per side
+  undoStack: HistoryEntry[]; // Non-combat actions taken since the turn started
+  redoStack: GameAction[]; // Undone actions, newest last
+  turnNumber: number; // 0 during setup, then +1 for every turn of either side
+  record: RecordEntry[]; // Every action of both sides in notation (see services/notation.ts)
+  startPosition: string | null; // Position the game was loaded from (services/position.ts); the record starts there
 }
 
+export type EndReason = 'elimination' | 'resignation' | 'mutual_pass';
+
+export interface RecordEntry {
+  turn: number;
+  side: Player | 'setup';
+  notation: string;
+}
+
+export interface HistoryEntry {
+  action: GameAction;
+  units: Unit[]; // Units as they were before the action
+}
+
+export type CombatWinner = 'attacker' | 'defender' | 'tie';
+
+// One attacker's strength split into its parts (see resolveCombat)
+export interface AttackerStrength {
+  unitId: string;
+  base: number;
+  support: number;
+  flank: number;
+  charge: number;
+  total: number;
+}
+
+// Expected result of a planned attack as far as the attacking side knows the defender's support
+export interface CombatPreview {
+  attackers: AttackerStrength[];
+  atkTotal: number;
+  defMin: number; // Defender strength if unknown support lines are absent
+  defMax: number; // ...and if they are all present
+  overrun: boolean; // Archer attacked in melee: automatic win
+  outcomes: CombatWinner[]; // Every result possible within the range
+}
+
+// Chance of each result of an attack, weighed over what the judging side believes about hidden support
+export type CombatOdds = Record<CombatWinner, number>;
+
 export interface Coordinate {
   x: number;
   y: number;
@@ -66,4 +195,50 @@ export interface AIAction {
   actionType: 'move' | 'rotate' | 'attack' | 'end_turn';
   target?: Coordinate; // For move/attack
   direction?: Direction; // For rotate
-}
\ No newline at end of file
+  attackerIds?: string[]; // For joint attacks: every unit taking part, unitId included (default: unitId alone)
+  chargeIds?: string[]; // For attacks: cavalry spending a move on the charge bonus
+}
+
+// Rule-level actions understood by services/engine.ts
+export type GameAction =
+  | { type: 'set_army'; player: Player; army: Record<UnitType, number> }
+  | { type: 'finish_army' }
+  | { type: 'place_unit'; player: Player; unitType: UnitType; x: number; y: number }
+  | { type: 'finish_placement' }
+  | { type: 'toggle_support'; player: Player; lineType: 'row' | 'col'; index: number }
+  | { type: 'finish_setup' }
+  | { type: 'move'; unitId: string; x: number; y: number }
+  | { type: 'rotate'; unitId: string; direction: Direction }
+  | { type: 'attack'; targetId: string; attackerIds: string[]; chargeIds?: string[] }
+  | { type: 'end_turn' }
+  | { type: 'resign'; player: Player };
+
+// --- Online protocol (server/relay.ts <-> services/onlineClient.ts) ---
+
+export type ClientMessage =
+  | { type: 'create_room'; armyBudget?: number; gridSize?: number; ruleSet?: RuleSetId }
+  | { type: 'join_room'; roomId: string }
+  | { type: 'rejoin'; roomId: string; token: string }
+  | { type: 'action'; action: GameAction }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+export type ServerMessage =
+  | { type: 'joined'; roomId: string; token: string; seat: Player }
+  // State as seen by the receiving seat: the opponent's support lines are never included
+  | { type: 'state'; state: GameState; ready: Record<Player, boolean>; opponentConnected: boolean }
+  | { type: 'error'; message: string };
+
+// --- AI worker protocol (services/aiClient.ts <-> services/aiWorker.ts) ---
+
+// Reports how far planning got: progress runs from 0 to 1
+export type AIProgressHandler = (progress: number, detail: string) => void;
+
+export type AIWorkerRequest =
+  { type: 'plan'; requestId: number; state: GameState; timeBudgetMs: number; llm?: LLMConfig };
+
+export type AIWorkerMessage =
+  | { type: 'progress'; requestId: number; progress: number; detail: string }
+  // note: something the player should know about how the plan came about, e.g. an LLM fallback
+  | { type: 'plan'; requestId: number; actions: AIAction[]; note: string | null }
+  | { type: 'error'; requestId: number; message: string };